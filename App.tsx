@@ -1,94 +1,364 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ClimberState, Level, Hold, Limb, HoldType, Point, AttachedLimb } from './types';
-import { INITIAL_STAMINA, INITIAL_CHALK, SAMPLE_LEVELS, HOLD_STAMINA_DRAIN, ANATOMY, MAX_REACH, HOLD_COLORS } from './constants';
-import { calculateTickDrain, calculateStability, constrainBodyPosition, getFrictionPenalty, isAttached, calculateDistance } from './utils/gameUtils';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { ClimberState, Level, Hold, Limb, HoldType, Point, AttachedLimb, ClimbInput, ReplayLog, AttemptResult, SimulationSettings, SimulationState, GhostTrace, BetaResult, LintIssue, ClimberProfile, HoldAttributes, LandingReport, ProtectionMode, WallSection, Problem, StartRule, FinishRule, AttemptRecord } from './types';
+import { SAMPLE_LEVELS, HOLD_COLORS, HOLD_DEFAULT_ATTRIBUTES, regenerateSportRoute } from './constants';
+import { SIM_TIMESTEP_MS, createClimberState, createSimulationState, stepSimulation, applyClimbInput, isSlippingAt, getClippableBolt } from './utils/simulation';
+import { ReplayPlayback, createReplayLog, recordInput, recordOutcomes, finalizeReplay, addReplay, buildReplayTimeline, getReplayStateAt, getReplayOutcomeAt, advancePlayback } from './utils/replay';
+import { parseSeed, randomSeed, createId } from './utils/random';
+import { getLevelKey, getHeightMilestones, getAltitude, updateSplits, buildGhostTrace, getGhostFrameAt } from './utils/ghost';
+import { loadGhost, saveGhostIfFaster } from './services/ghostStorage';
+import { loadProfiles, saveProfiles, loadSelectedProfileId, saveSelectedProfileId } from './services/profileStorage';
+import { loadSavedLevels, saveSavedLevels, loadDraft, saveDraft } from './services/levelStorage';
+import { loadAttempts, saveAttempts } from './services/attemptStorage';
+import { AttemptTracker, startAttempt, updateAttempt, finishAttempt, addAttempt, weightRope, isSend } from './utils/attempts';
+import { serializeLevel, getLevelFileName, parseLevelFile } from './utils/levelFormat';
+import { encodeShareLink, decodeShareLink, getSharePayload } from './utils/shareLink';
+import { getProblem, getProblemLevel, createProblem, pruneProblems } from './utils/problems';
+import { getStartRule, getFinishRule } from './utils/rules';
+import { getClimberBody } from './utils/body';
+import { solveRouteAsync } from './utils/betaSolver';
+import { estimateGrade, withEstimatedGrade, SPORT_HEIGHT_THRESHOLD } from './utils/grading';
+import { lintLevel } from './utils/routeLinter';
+import { clampToWall, getWallAngleAt } from './utils/wall';
+import { EditHistory, EMPTY_HISTORY, recordEdit, undoEdit, redoEdit } from './utils/history';
 import { generateLevel, getCoachAdvice, generateLevelFromImage } from './services/geminiService';
 import BoulderingWall from './components/BoulderingWall';
 import GameHUD from './components/GameHUD';
 import EditorControls from './components/EditorControls';
+import ReplayPanel from './components/ReplayPanel';
+import AttemptLog from './components/AttemptLog';
+import ClimberProfilePanel from './components/ClimberProfilePanel';
+
+// How far copies are shifted from the holds they were copied from
+const PASTE_OFFSET = 4;
+
+const isSportRoute = (level: Level) => (level.height || 100) > SPORT_HEIGHT_THRESHOLD;
+
+const PROTECTION_MODES: { mode: ProtectionMode; label: string }[] = [
+  { mode: 'lead', label: 'Lead' },
+  { mode: 'topRope', label: 'Top-Rope' },
+  { mode: 'freeSolo', label: 'Free Solo' },
+];
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<'play' | 'editor'>('play');
-  const [climbingMode, setClimbingMode] = useState<'boulder' | 'sport'>('boulder');
+  // Pick up where the last session left off
+  const [level, setLevel] = useState<Level>(() => loadDraft() || SAMPLE_LEVELS[0]);
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  // Latest level for edits, including async ones that finish after a re-render
+  const levelRef = useRef<Level>(level);
+  const [savedLevels, setSavedLevels] = useState<Level[]>(loadSavedLevels);
+  const [sharedLevel, setSharedLevel] = useState<Level | null>(null);
+  // Circuit walls open on their first problem
+  const [problemId, setProblemId] = useState<string | null>(() => level.problems?.[0]?.id ?? null);
+  const [climbingMode, setClimbingMode] = useState<'boulder' | 'sport'>(() => isSportRoute(level) ? 'sport' : 'boulder');
+  const [protectionMode, setProtectionMode] = useState<ProtectionMode>('lead');
   const [infiniteStamina, setInfiniteStamina] = useState(false);
   const [realismMode, setRealismMode] = useState(false); // New Toggle
   const [isUserDragging, setIsUserDragging] = useState(false);
   const [isSlipping, setIsSlipping] = useState(false);
   
-  const [level, setLevel] = useState<Level>(SAMPLE_LEVELS[0]);
-
-  // Spawn settings
-  const getGroundY = (lvl: Level) => lvl.height || 100;
-  const getStartCom = (lvl: Level) => ({ x: 50, y: getGroundY(lvl) - 14 }); // Standing height
-  const getStartLimbs = (lvl: Level) => ({
-      leftHand: null,
-      rightHand: null,
-      leftFoot: { x: 46, y: getGroundY(lvl) }, // Feet on ground
-      rightFoot: { x: 54, y: getGroundY(lvl) }
-  });
-
-  const [climber, setClimber] = useState<ClimberState>({
-    limbs: getStartLimbs(SAMPLE_LEVELS[0]),
-    stamina: INITIAL_STAMINA,
-    armPump: { left: 0, right: 0 },
-    chalk: INITIAL_CHALK,
-    balance: 0,
-    status: 'idle',
-    centerOfMass: getStartCom(SAMPLE_LEVELS[0]),
-    velocity: { x: 0, y: 0 }
-  });
+  const [seedInput, setSeedInput] = useState('');
+
+  const [climber, setClimber] = useState<ClimberState>(() => createClimberState(level, problemId));
 
   const [editorTool, setEditorTool] = useState<HoldType>('jug');
   const [editorColor, setEditorColor] = useState<string>(HOLD_COLORS['jug']);
+  const [editorAttributes, setEditorAttributes] = useState<HoldAttributes>(HOLD_DEFAULT_ATTRIBUTES['jug']);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [betaResult, setBetaResult] = useState<BetaResult | null>(null);
+  const [isSolving, setIsSolving] = useState(false);
+  // Bumped whenever a search starts or the route changes, so late results are dropped
+  const solveRunRef = useRef(0);
+  const [selectedIssueId, setSelectedIssueId] = useState<string | null>(null);
+  const [selectedHoldIds, setSelectedHoldIds] = useState<string[]>([]);
+  const clipboardRef = useRef<Hold[]>([]);
 
   const [coachAdvice, setCoachAdvice] = useState<string | null>(null);
+  const [replays, setReplays] = useState<Record<string, ReplayLog[]>>({});
+  const [attempts, setAttempts] = useState<Record<string, AttemptRecord[]>>(loadAttempts);
+  const [playback, setPlayback] = useState<ReplayPlayback | null>(null);
+  const [ghost, setGhost] = useState<GhostTrace | null>(null);
+  const [profiles, setProfiles] = useState<ClimberProfile[]>(loadProfiles);
+  const [profileId, setProfileId] = useState<string>(() => loadSelectedProfileId() || profiles[0].id);
+  const [splitDelta, setSplitDelta] = useState<{ index: number; total: number; deltaMs: number } | null>(null);
+  const [landing, setLanding] = useState<LandingReport | null>(null);
   const gameLoopRef = useRef<number>(0);
-  const staminaAccumulatorRef = useRef<number>(0);
-  const prevCOMRef = useRef<Point>(getStartCom(SAMPLE_LEVELS[0]));
+  const frameAccumulatorRef = useRef<number>(0);
 
-  const resetClimber = useCallback(() => {
-    const startPos = getStartCom(level);
-    setClimber({
-      limbs: getStartLimbs(level),
-      stamina: INITIAL_STAMINA,
-      armPump: { left: 0, right: 0 },
-      chalk: INITIAL_CHALK,
-      balance: 0,
-      status: 'idle',
-      centerOfMass: startPos,
-      velocity: { x: 0, y: 0 }
-    });
+  // Authoritative simulation state. `climber` mirrors it for rendering; the loop and the
+  // player's inputs both advance this ref, so recorded inputs line up with physics steps.
+  const simRef = useRef<SimulationState>(createSimulationState(climber));
+  const simStepRef = useRef<number>(0);
+
+  // Replay recording
+  const recorderRef = useRef<ReplayLog | null>(null);
+  const recordStartStepRef = useRef<number>(0);
+  const recordedAmbientRef = useRef<{ dragging: boolean; settings: SimulationSettings } | null>(null);
+
+  // Ghost race: step at which the climber left the ground, and the live split times since
+  const attemptStartStepRef = useRef<number | null>(null);
+  const liveSplitsRef = useRef<number[]>([]);
+  const attemptRef = useRef<AttemptTracker | null>(null);
+  const milestones = useMemo(() => getHeightMilestones(level), [level]);
+
+  const activeProblem = getProblem(level, problemId);
+
+  const profile = profiles.find(p => p.id === profileId) || profiles[0];
+  const body = useMemo(() => getClimberBody(profile), [profile]);
+
+  // Protection only means something on a roped route
+  const isSportLevel = isSportRoute(level);
+  const protection = isSportLevel ? protectionMode : undefined;
+  const settings = useMemo<SimulationSettings>(() => ({ realismMode, infiniteStamina, body, protection }), [realismMode, infiniteStamina, body, protection]);
+
+  const getRecordStep = () => simStepRef.current - recordStartStepRef.current;
+
+  const startRecording = (lvl: Level, sim: SimulationState) => {
+    recorderRef.current = createReplayLog(getLevelKey(lvl, sim.climber.problemId), lvl, settings, sim);
+    recordStartStepRef.current = simStepRef.current;
+    recordedAmbientRef.current = { dragging: false, settings };
+  };
+
+  // `climber` is the state the attempt ended in; `attempt` is its logbook entry, if it left the ground
+  const finishRecording = (result: AttemptResult, climber: ClimberState, attempt: AttemptRecord | null) => {
+    const log = recorderRef.current;
+    recorderRef.current = null;
+    if (!log) return;
+    const finished = finalizeReplay(log, getRecordStep(), result, climber);
+    if (!finished) return;
+    setReplays(prev => addReplay(prev, finished));
+
+    // Only a send, by the same rules as the logbook, sets a ghost
+    if (attempt && isSend(attempt)) {
+        const trace = buildGhostTrace(finished, getLevelKey(finished.level, climber.problemId));
+        if (trace) setGhost(saveGhostIfFaster(trace));
+    }
+  };
+
+  // Logs the attempt in progress, if the climber left the ground, and closes its replay
+  const endAttempt = (result: AttemptResult, climber: ClimberState = simRef.current.climber) => {
+    const tracker = attemptRef.current;
+    attemptRef.current = null;
+    const attempt = tracker ? finishAttempt(tracker, result, climber, getAttemptElapsedMs()) : null;
+    if (attempt) setAttempts(prev => addAttempt(prev, attempt));
+    finishRecording(result, climber, attempt);
+  };
+
+  const resetAttemptClock = () => {
+    attemptStartStepRef.current = null;
+    liveSplitsRef.current = [];
+    setSplitDelta(null);
+  };
+
+  const getAttemptElapsedMs = () =>
+    attemptStartStepRef.current === null ? 0 : (simStepRef.current - attemptStartStepRef.current) * SIM_TIMESTEP_MS;
+
+  // Starts the clock when the climber leaves the ground and logs height splits against the ghost
+  const trackAttempt = (state: ClimberState) => {
+    if (attemptStartStepRef.current === null) {
+        if (state.status !== 'climbing') return;
+        attemptStartStepRef.current = simStepRef.current;
+        attemptRef.current = startAttempt(getLevelKey(level, state.problemId), state, settings);
+        setLanding(null);
+    }
+    if (attemptRef.current) attemptRef.current = updateAttempt(attemptRef.current, state, settings);
+    if (state.status === 'falling' || state.status === 'topped' || state.status === 'decked') return;
+
+    const splits = liveSplitsRef.current;
+    if (updateSplits(splits, milestones, getAltitude(level, state), getAttemptElapsedMs()) && ghost) {
+        const index = splits.length - 1;
+        if (ghost.splits[index] !== undefined) {
+            setSplitDelta({ index, total: milestones.length, deltaMs: splits[index] - ghost.splits[index] });
+        }
+    }
+  };
+
+  // Drag state and settings change how steps run; log them at the step where they take effect
+  const recordAmbientInputs = (dragging: boolean) => {
+    const log = recorderRef.current;
+    const recorded = recordedAmbientRef.current;
+    if (!log || !recorded) return;
+    if (recorded.dragging !== dragging) {
+        recordInput(log, getRecordStep(), { kind: 'drag', dragging });
+    }
+    if (recorded.settings.realismMode !== settings.realismMode || recorded.settings.infiniteStamina !== settings.infiniteStamina || recorded.settings.body !== settings.body || recorded.settings.protection !== settings.protection) {
+        recordInput(log, getRecordStep(), { kind: 'settings', settings });
+    }
+    recordedAmbientRef.current = { dragging, settings };
+  };
+
+  const dispatchInput = (input: ClimbInput) => {
+    if (playback) return;
+    const sim = simRef.current;
+    if (recorderRef.current) recordInput(recorderRef.current, getRecordStep(), input);
+
+    const nextClimber = applyClimbInput(sim.climber, input, level, body);
+    simRef.current = { ...sim, climber: nextClimber };
+    setClimber(nextClimber);
+
+    if (nextClimber.status === 'topped' && sim.climber.status !== 'topped') endAttempt('topped');
+  };
+
+  const restartClimb = (lvl: Level, problem: string | null = problemId) => {
+    endAttempt('reset');
+    const sim = createSimulationState(createClimberState(lvl, problem));
+    simRef.current = sim;
+    setClimber(sim.climber);
     setCoachAdvice(null);
     setIsSlipping(false);
-    prevCOMRef.current = startPos;
+    setLanding(null);
+    resetAttemptClock();
+    startRecording(lvl, sim);
+  };
+
+  const resetClimber = useCallback(() => {
+    setPlayback(null);
+    restartClimb(level);
+  }, [level, settings]);
+
+  // The first attempt starts recording as soon as the wall loads
+  useEffect(() => {
+    startRecording(level, simRef.current);
+  }, []);
+
+  // Opened from a share link (or one pasted into this tab): play that route
+  useEffect(() => {
+      const openSharedRoute = async () => {
+          const payload = getSharePayload(window.location.hash);
+          if (payload === null) return;
+          // Drop the fragment so a refresh goes back to the draft, which is now this route
+          window.history.replaceState(null, '', window.location.pathname + window.location.search);
+          const result = await decodeShareLink(payload);
+          if ('errors' in result) {
+              alert(`This share link couldn't be opened:\n\n${result.errors.slice(0, 5).join('\n')}`);
+              return;
+          }
+          setSharedLevel(result.level);
+      };
+      openSharedRoute();
+      window.addEventListener('hashchange', openSharedRoute);
+      return () => window.removeEventListener('hashchange', openSharedRoute);
+  }, []);
+
+  // Never let a file or link replace a sample or one of My Routes just by sharing its id
+  const withUnusedId = (lvl: Level): Level => {
+      const taken = [...SAMPLE_LEVELS, ...savedLevels].some(l => l.id === lvl.id);
+      return taken ? { ...lvl, id: `user-${createId()}` } : lvl;
+  };
+
+  // Loaded here rather than in the listener above, which only sees the first render's state
+  useEffect(() => {
+      if (!sharedLevel) return;
+      setSharedLevel(null);
+      setMode('play');
+      setClimbingMode(isSportRoute(sharedLevel) ? 'sport' : 'boulder');
+      handleLevelChange(withUnusedId(sharedLevel));
+  }, [sharedLevel]);
+
+  // Load the best send for this route (and seed) to race against
+  useEffect(() => {
+      setGhost(loadGhost(getLevelKey(level, activeProblem?.id)));
+  }, [level.id, level.seed, activeProblem?.id]);
+
+  // Keep the seed field in step with the loaded route
+  useEffect(() => {
+      setSeedInput(level.seed !== undefined ? String(level.seed) : '');
+  }, [level.seed]);
+
+  useEffect(() => {
+      levelRef.current = level;
+      saveDraft(level);
   }, [level]);
 
-  // Sync editor color with tool type by default
+  useEffect(() => {
+      saveSavedLevels(savedLevels);
+  }, [savedLevels]);
+
+  useEffect(() => {
+      saveAttempts(attempts);
+  }, [attempts]);
+
+  const gradeEstimate = useMemo(() => estimateGrade(level), [level.holds, level.angle, level.sections, level.height]);
+
+  const lintIssues = useMemo(() => lintLevel(level), [level.holds, level.height, level.problems]);
+  // Editing can fix the selected issue; stop highlighting once it's gone
+  const selectedIssue = lintIssues.find(i => i.id === selectedIssueId) || null;
+
+  // A solver result only describes the route it was run on
+  useEffect(() => {
+      solveRunRef.current++;
+      setBetaResult(null);
+      setIsSolving(false);
+  }, [level.holds, level.angle, level.sections, level.problems, problemId, realismMode, body]);
+
+  useEffect(() => {
+      saveProfiles(profiles);
+  }, [profiles]);
+
+  useEffect(() => {
+      saveSelectedProfileId(profile.id);
+  }, [profile.id]);
+
+  // Sync editor color and shape with tool type by default
   useEffect(() => {
       setEditorColor(HOLD_COLORS[editorTool]);
+      setEditorAttributes(HOLD_DEFAULT_ATTRIBUTES[editorTool]);
   }, [editorTool]);
 
-  // Chalk Handler
+  // Editor Shortcuts: copy, paste, duplicate, delete
   useEffect(() => {
+    if (mode !== 'editor') return;
     const handleKeyDown = (e: KeyboardEvent) => {
-        if (e.key.toLowerCase() === 'c' && climber.status === 'climbing') {
-            setClimber(prev => {
-                if (prev.chalk >= 100) return prev;
-                return {
-                    ...prev,
-                    chalk: Math.min(100, prev.chalk + 5),
-                    stamina: Math.max(0, prev.stamina - 1)
-                };
-            });
+        const tag = (e.target as HTMLElement)?.tagName;
+        if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+        const selected = level.holds.filter(h => selectedHoldIds.includes(h.id));
+        const key = e.key.toLowerCase();
+        const mod = e.ctrlKey || e.metaKey;
+
+        if (mod && key === 'z') {
+            e.preventDefault();
+            if (e.shiftKey) handleRedo();
+            else handleUndo();
+        } else if (mod && key === 'y') {
+            e.preventDefault();
+            handleRedo();
+        } else if (mod && key === 'c') {
+            clipboardRef.current = selected;
+        } else if (mod && key === 'v') {
+            pasteHolds(clipboardRef.current, 'Paste holds');
+        } else if (mod && key === 'd') {
+            e.preventDefault(); // Browser bookmark
+            pasteHolds(selected, 'Duplicate holds');
+        } else if (mod && key === 'a') {
+            e.preventDefault();
+            setSelectedHoldIds(level.holds.map(h => h.id));
+        } else if (key === 'delete' || key === 'backspace') {
+            if (selected.length > 0) handleDeleteSelectedHolds();
+        } else if (key === 'escape') {
+            setSelectedHoldIds([]);
         }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [climber.status]);
+  }, [mode, level.holds, selectedHoldIds, history]);
 
+  // Chalk & Clip Handler
   useEffect(() => {
-    if (mode === 'editor') {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key.toLowerCase() === 'c' && climber.status === 'climbing' && climber.chalk < 100) {
+            dispatchInput({ kind: 'chalk' });
+        }
+        if (e.key.toLowerCase() === 'q' && protection !== 'freeSolo' && protection !== 'topRope') {
+            const bolt = getClippableBolt(simRef.current.climber, level, body);
+            if (bolt) dispatchInput({ kind: 'clip', boltId: bolt.id });
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [climber.status, climber.chalk, level, body, protection, playback]);
+
+  useEffect(() => {
+    if (mode === 'editor' || playback) {
         if (gameLoopRef.current) cancelAnimationFrame(gameLoopRef.current);
         return;
     }
@@ -97,198 +367,45 @@ const App: React.FC = () => {
 
     const loop = (time: number) => {
       const dt = time - lastTime;
-      const safeDt = Math.min(dt, 50); 
       lastTime = time;
 
-      if (safeDt > 0) {
-        setClimber(prev => {
-          let nextState = { ...prev };
-          const groundY = getGroundY(level);
-
-          // --- Velocity Calculation ---
-          // Determine velocity from previous frame movement
-          const vx = (prev.centerOfMass.x - prevCOMRef.current.x) * (16 / safeDt);
-          const vy = (prev.centerOfMass.y - prevCOMRef.current.y) * (16 / safeDt);
-          
-          nextState.velocity = { x: vx, y: vy };
-          prevCOMRef.current = { ...prev.centerOfMass };
-
-          // --- 0. Falling Physics ---
-          if (nextState.status === 'falling') {
-              nextState.limbs = { leftHand: null, rightHand: null, leftFoot: null, rightFoot: null };
-              
-              // Fall until ground
-              if (nextState.centerOfMass.y < groundY - 5) {
-                  nextState.centerOfMass.y += 1.5; // Reduced terminal velocity for slower falls
-                  nextState.centerOfMass.x += nextState.velocity.x * 0.95; // Maintain momentum while falling
-                  
-                  // Bounce/Slide off walls
-                  if (nextState.centerOfMass.x < 0) nextState.centerOfMass.x = 0;
-                  if (nextState.centerOfMass.x > 100) nextState.centerOfMass.x = 100;
-              } else {
-                  // Hit ground: Reset to idle standing
-                  nextState.status = 'idle';
-                  nextState.centerOfMass.y = groundY - 14;
-                  nextState.limbs = getStartLimbs(level);
-                  nextState.stamina = 50; // Penalty
-              }
-              return nextState;
-          }
+      // Accumulate real frame time and advance the physics in fixed steps
+      frameAccumulatorRef.current += Math.min(Math.max(dt, 0), 50);
+      const steps = Math.floor(frameAccumulatorRef.current / SIM_TIMESTEP_MS);
+      frameAccumulatorRef.current -= steps * SIM_TIMESTEP_MS;
 
-          // --- Check if Standing on Ground ---
-          const isGrounded = nextState.centerOfMass.y >= groundY - 16;
-          
-          if (isGrounded && !isUserDragging) {
-              nextState.balance = 0; 
-              nextState.stamina = Math.min(100, nextState.stamina + 0.5); 
-              nextState.armPump = { left: 0, right: 0 }; 
-              setIsSlipping(false);
-              
-              if (nextState.status !== 'idle') nextState.status = 'idle';
-
-              if (vx === 0 && vy === 0) {
-                  nextState.centerOfMass.y = nextState.centerOfMass.y * 0.9 + (groundY - 14) * 0.1;
-              }
-              
-              if (nextState.centerOfMass.y > groundY - 12) nextState.centerOfMass.y = groundY - 12;
-
-              if (!nextState.limbs.leftFoot) nextState.limbs.leftFoot = { x: nextState.centerOfMass.x - 4, y: groundY };
-              if (!nextState.limbs.rightFoot) nextState.limbs.rightFoot = { x: nextState.centerOfMass.x + 4, y: groundY };
-
-              return nextState;
-          }
+      if (steps > 0) {
+        let slipping: boolean | null = null;
 
-          // --- 1. Climbing Physics (Momentum + Gravity + Muscles) ---
-          if (!isUserDragging) {
-             let gravity = 0.2; 
-             let damping = 0.92;
-             
-             // Adjust gravity based on foot placement (Standing vs Hanging)
-             const activeFootLimbs = [nextState.limbs.leftFoot, nextState.limbs.rightFoot].filter(l => l !== null); 
-             if (activeFootLimbs.length > 0) {
-                 const avgFootY = activeFootLimbs.reduce((sum, l) => sum + l!.y, 0) / activeFootLimbs.length;
-                 // If center of mass is ABOVE feet (standing)
-                 if (nextState.centerOfMass.y < avgFootY + 5) {
-                     const angleRad = (level.angle || 0) * (Math.PI / 180);
-                     // On slabs/vertical, gravity is supported by feet mostly
-                     gravity = 0.2 * Math.sin(angleRad);
-                     if (level.angle !== undefined && level.angle < 0) gravity = 0.05;
-                 }
-             }
-
-             // --- MUSCLE ACTIVATION / CORE TENSION ---
-             // If we are hanging (especially on overhangs), we use muscles to hold position.
-             // We only do this if we have some stamina left and are attached.
-             const handCount = [nextState.limbs.leftHand, nextState.limbs.rightHand].filter(isAttached).length;
-             
-             if (handCount > 0 && nextState.stamina > 5) {
-                 const velocityMag = Math.sqrt(vx*vx + vy*vy);
-                 
-                 // If we are relatively still (attempting to lock off), activate muscles
-                 // Threshold ensures we don't kill momentum during a big swing/dyno
-                 if (velocityMag < 1.0) {
-                     // How much can we fight gravity? Depends on stamina.
-                     // at 100 stamina -> 1.0 strength. at 0 stamina -> 0 strength.
-                     const muscleStrength = Math.min(1.0, nextState.stamina / 20); 
-                     
-                     // Reduce gravity effect to simulate holding the core tight
-                     // We leave a tiny bit of gravity so it feels organic, not perfectly frozen
-                     gravity *= (1 - (0.9 * muscleStrength));
-                     
-                     // Increase damping to kill micro-movements (stiffen up)
-                     damping = 0.92 * (1 - (0.15 * muscleStrength));
-                 }
-             }
-
-             let proposedCOM = { 
-                 x: nextState.centerOfMass.x + (nextState.velocity.x * damping), 
-                 y: nextState.centerOfMass.y + (nextState.velocity.y * damping) + gravity 
-             };
-
-             // --- AUTO-DETACH LOGIC ---
-             // If momentum carries us beyond reach of a limb, we should detach that limb
-             // rather than bouncing off an invisible wall (which constrainsBodyPosition does).
-             const nextLimbs = { ...nextState.limbs };
-             
-             const checkAndDetach = (limb: Limb, anchorOffset: {x:number, y:number}, maxR: number) => {
-                 if (nextLimbs[limb]) {
-                     const anchor = { x: proposedCOM.x + anchorOffset.x, y: proposedCOM.y + anchorOffset.y };
-                     if (calculateDistance(anchor, nextLimbs[limb]!) > maxR * 1.05) {
-                         nextLimbs[limb] = null;
-                     }
-                 }
-             };
-
-             checkAndDetach('leftHand', { x: -ANATOMY.shoulderWidth/2, y: -ANATOMY.torsoHeight * 0.85 }, MAX_REACH.hand);
-             checkAndDetach('rightHand', { x: ANATOMY.shoulderWidth/2, y: -ANATOMY.torsoHeight * 0.85 }, MAX_REACH.hand);
-             checkAndDetach('leftFoot', { x: -ANATOMY.hipWidth/2, y: 1.5 }, MAX_REACH.foot);
-             checkAndDetach('rightFoot', { x: ANATOMY.hipWidth/2, y: 1.5 }, MAX_REACH.foot);
-             
-             nextState.limbs = nextLimbs;
+        for (let i = 0; i < steps; i++) {
+          recordAmbientInputs(isUserDragging);
+          const before = simRef.current.climber;
+          const { state, events } = stepSimulation(simRef.current, { isUserDragging }, level, settings);
+          simRef.current = state;
+          simStepRef.current += 1;
+          trackAttempt(state.climber);
 
-             // Constrain to remaining limbs (creates the swinging/pendulum effect)
-             nextState.centerOfMass = constrainBodyPosition(proposedCOM, nextState.limbs, level.holds);
-          }
+          if (recorderRef.current) recordOutcomes(recorderRef.current, getRecordStep(), events);
 
-          // --- 2. Game Logic (Stamina & Balance) ---
-          if (nextState.status === 'climbing' && !isUserDragging) {
-              staminaAccumulatorRef.current += safeDt;
-              if (staminaAccumulatorRef.current > 100) {
-                 staminaAccumulatorRef.current = 0;
-
-                 // Pass realismMode to physics
-                 const balanceScore = calculateStability(nextState, level.holds, level.angle || 0, realismMode);
-                 nextState.balance = balanceScore;
-                 
-                 const frictionPenalty = getFrictionPenalty(nextState, level.holds, level.angle || 0, realismMode);
-                 
-                 // In realism mode, slips happen easier
-                 const slipThreshold = realismMode ? 15 : 20;
-                 setIsSlipping(frictionPenalty > slipThreshold);
-
-                 if (balanceScore >= 100 && !infiniteStamina) {
-                     nextState.balance = 100;
-                     nextState.status = 'falling';
-                     nextState.limbs = { leftHand: null, rightHand: null, leftFoot: null, rightFoot: null };
-                 }
-
-                 const drains = calculateTickDrain(nextState, level.holds, HOLD_STAMINA_DRAIN, level.angle || 0, realismMode);
-                 
-                 if (!infiniteStamina) {
-                     nextState.stamina = Math.max(0, nextState.stamina - drains.core);
-                     nextState.armPump = {
-                         left: Math.max(0, Math.min(100, nextState.armPump.left + drains.leftPump)),
-                         right: Math.max(0, Math.min(100, nextState.armPump.right + drains.rightPump))
-                     };
-                     nextState.chalk = Math.max(0, nextState.chalk - 0.02);
-
-                     if (nextState.armPump.left >= 100) nextState.limbs.leftHand = null;
-                     if (nextState.armPump.right >= 100) nextState.limbs.rightHand = null;
-                     
-                     if (nextState.stamina <= 0) {
-                         nextState.status = 'falling';
-                         nextState.limbs = { leftHand: null, rightHand: null, leftFoot: null, rightFoot: null };
-                     }
-                 }
-              }
-          } else {
-             nextState.balance = 0;
-             setIsSlipping(false);
-          }
+          events.forEach(e => {
+              if (e.type === 'slip') slipping = e.slipping;
+              if (e.type === 'landed') setLanding({ outcome: e.outcome, fallHeight: e.fallHeight, onPad: e.onPad });
+              if (e.type === 'ropeCaught' && attemptRef.current) attemptRef.current = weightRope(attemptRef.current);
+          });
 
-          // --- 3. Check Fall ---
-          const handCount = [nextState.limbs.leftHand, nextState.limbs.rightHand].filter(isAttached).length;
-          
-          if (!isUserDragging && handCount === 0 && nextState.centerOfMass.y < groundY - 18) {
-               nextState.centerOfMass.y += 1.0; 
-               if (nextState.status === 'climbing') {
-                   nextState.status = 'falling';
-                   nextState.limbs = { leftHand: null, rightHand: null, leftFoot: null, rightFoot: null };
-               }
+          // Top-outs and deadpoint catches can top the climb mid-step
+          if (state.climber.status === 'topped' && before.status !== 'topped') endAttempt('topped', state.climber);
+
+          // A landing closes the attempt; the next one starts from the pad
+          if (events.some(e => e.type === 'landed')) {
+              endAttempt('fell', before);
+              resetAttemptClock();
+              startRecording(level, state);
           }
+        }
 
-          return nextState;
-        });
+        setClimber(simRef.current.climber);
+        if (slipping !== null) setIsSlipping(slipping);
       }
 
       gameLoopRef.current = requestAnimationFrame(loop);
@@ -299,7 +416,30 @@ const App: React.FC = () => {
     return () => {
       if (gameLoopRef.current) cancelAnimationFrame(gameLoopRef.current);
     };
-  }, [mode, climber.status, level.holds, level.angle, infiniteStamina, realismMode, isUserDragging, level.height]);
+  }, [mode, playback !== null, level, settings, isUserDragging, ghost, milestones]);
+
+  // Replay playback clock
+  useEffect(() => {
+    if (!playback?.playing) return;
+
+    let lastTime = performance.now();
+    let frame = 0;
+
+    const tick = (time: number) => {
+        const dt = Math.min(time - lastTime, 50);
+        lastTime = time;
+        setPlayback(prev => prev && advancePlayback(prev, dt));
+        frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playback?.playing]);
+
+  const playbackClimber = useMemo(
+      () => playback ? getReplayStateAt(playback.timeline, playback.step) : null,
+      [playback?.timeline, playback?.step]
+  );
 
   // Periodic Coach Advice
   useEffect(() => {
@@ -318,69 +458,256 @@ const App: React.FC = () => {
   // --- Handlers ---
 
   const handlePlaceLimb = (val: AttachedLimb | Point | null, limb: Limb) => {
-    setClimber(prev => {
-      const nextLimbs = { ...prev.limbs, [limb]: val };
-      let status = prev.status;
-      
-      const lhVal = limb === 'leftHand' ? val : nextLimbs.leftHand;
-      const rhVal = limb === 'rightHand' ? val : nextLimbs.rightHand;
-
-      if (isAttached(lhVal) && isAttached(rhVal)) {
-          const lhHold = level.holds.find(h => h.id === lhVal.holdId);
-          const rhHold = level.holds.find(h => h.id === rhVal.holdId);
-          
-          if (lhHold?.type === 'finish' && rhHold?.type === 'finish') {
-              status = 'topped';
-          }
-      }
+    dispatchInput({ kind: 'limb', limb, target: val });
+  };
 
-      if (status === 'idle' && (isAttached(val) || val !== null)) {
-          status = 'climbing';
-      }
+  const handleUpdateCOM = (newCOM: Point) => {
+      dispatchInput({ kind: 'com', com: newCOM });
+  };
 
-      return {
-        ...prev,
-        limbs: nextLimbs,
-        status: status
-      };
-    });
+  const handleWatchReplay = (log: ReplayLog) => {
+      setPlayback({ timeline: buildReplayTimeline(log), step: 0, playing: true, speed: 1 });
   };
 
-  const handleUpdateCOM = (newCOM: Point) => {
-      setClimber(prev => ({ ...prev, centerOfMass: newCOM }));
+  // --- Editor History ---
+
+  // Every editor change goes through here so it can be undone
+  const editLevel = (label: string, update: (prev: Level) => Level, coalesce: boolean = false) => {
+    const before = levelRef.current;
+    const after = update(before);
+    levelRef.current = after;
+    setHistory(h => recordEdit(h, label, before, coalesce));
+    setLevel(after);
+  };
+
+  const restoreFromHistory = (step: { history: EditHistory; level: Level } | null) => {
+    if (!step) return;
+    levelRef.current = step.level;
+    setLevel(step.level);
+    setHistory(step.history);
+    setSelectedHoldIds(ids => ids.filter(id => step.level.holds.some(h => h.id === id)));
   };
 
+  const handleUndo = () => restoreFromHistory(undoEdit(history, levelRef.current));
+  const handleRedo = () => restoreFromHistory(redoEdit(history, levelRef.current));
+
   const handleEditorCanvasClick = (x: number, y: number) => {
-    const newHold: Hold = {
-      id: Math.random().toString(36).substr(2, 9),
+    // The camera shows a strip of floor under the wall; a click there lands on the bottom edge
+    const newHold: Hold = clampToWall(level, {
+      id: createId(),
       x,
       y,
       type: editorTool,
       rotation: 0,
-      color: editorColor // Use selected color
-    };
-    setLevel(prev => ({ ...prev, holds: [...prev.holds, newHold] }));
+      color: editorColor, // Use selected color
+      ...editorAttributes
+    });
+    editLevel('Add hold', prev => ({ ...prev, holds: [...prev.holds, newHold] }));
   };
 
-  const handleEditorHoldClick = (hold: Hold) => {
-    setLevel(prev => ({
+  // --- Editor Selection ---
+
+  const handleMoveHolds = (ids: string[], delta: Point) => {
+    editLevel('Move holds', prev => ({
       ...prev,
-      holds: prev.holds.filter(h => h.id !== hold.id)
+      holds: prev.holds.map(h => ids.includes(h.id) ? clampToWall(prev, { ...h, x: h.x + delta.x, y: h.y + delta.y }) : h)
     }));
   };
 
+  const handleRotateHold = (id: string, rotation: number) => {
+    editLevel('Rotate hold', prev => ({ ...prev, holds: prev.holds.map(h => h.id === id ? { ...h, rotation } : h) }));
+  };
+
+  // Inspector edits apply to every selected hold. A type change carries the colour along
+  // unless the hold was given its own.
+  const handleUpdateSelectedHolds = (changes: Partial<Pick<Hold, 'type' | 'color' | 'rotation'>>) => {
+    editLevel('Edit holds', prev => ({
+      ...prev,
+      holds: prev.holds.map(h => {
+        if (!selectedHoldIds.includes(h.id)) return h;
+        const keepsTypeColor = !h.color || h.color === HOLD_COLORS[h.type];
+        const color = changes.type && keepsTypeColor && !changes.color ? HOLD_COLORS[changes.type] : h.color;
+        return { ...h, color, ...changes };
+      })
+    }), true);
+  };
+
+  const handleDeleteSelectedHolds = () => {
+    editLevel('Delete holds', prev => {
+        const holds = prev.holds.filter(h => !selectedHoldIds.includes(h.id));
+        return { ...prev, holds, problems: pruneProblems(prev.problems, holds) };
+    });
+    setSelectedHoldIds([]);
+  };
+
+  // Pasted holds land a little down and right of the originals and become the selection
+  const pasteHolds = (holds: Hold[], label: string) => {
+    if (holds.length === 0) return;
+    const pasted = holds.map(h => clampToWall(level, { ...h, id: createId(), x: h.x + PASTE_OFFSET, y: h.y + PASTE_OFFSET }));
+    editLevel(label, prev => ({ ...prev, holds: [...prev.holds, ...pasted] }));
+    setSelectedHoldIds(pasted.map(h => h.id));
+  };
+
   const handleUpdateAngle = (newAngle: number) => {
-      setLevel(prev => ({...prev, angle: newAngle}));
+      editLevel('Change angle', prev => ({...prev, angle: newAngle}), true);
+  };
+
+  const handleUpdateSections = (sections: WallSection[]) => {
+      editLevel('Edit sections', prev => ({ ...prev, sections: sections.length > 0 ? sections : undefined }), true);
+  };
+
+  // Defaults are left off the level so existing routes stay unchanged
+  const handleUpdateRules = (rules: { startRule?: StartRule; finishRule?: FinishRule }) => {
+      editLevel('Change rules', prev => {
+          const next = { ...prev, ...rules };
+          if (next.startRule === 'standing') delete next.startRule;
+          if (next.finishRule === 'match') delete next.finishRule;
+          return next;
+      });
+  };
+
+  // --- Problems ---
+
+  const handleUpdateProblems = (problems: Problem[]) => {
+      editLevel('Edit problems', prev => ({ ...prev, problems: problems.length > 0 ? problems : undefined }), true);
+  };
+
+  // A new problem from the selected holds, graded on its own
+  const handleAddProblem = () => {
+      const holds = level.holds.filter(h => selectedHoldIds.includes(h.id));
+      if (holds.length === 0) return;
+      const draft = createProblem(`p-${createId()}`, `Problem ${(level.problems?.length || 0) + 1}`, '', holds);
+      const problem = { ...draft, grade: estimateGrade(getProblemLevel(level, draft)).grade };
+      editLevel('Add problem', prev => ({ ...prev, problems: [...(prev.problems || []), problem] }));
+      setProblemId(problem.id);
+  };
+
+  const handleSelectProblem = (id: string | null) => {
+      setProblemId(id);
+      setPlayback(null);
+      restartClimb(level, id);
+  };
+
+  const handleApplyGrade = () => {
+      editLevel('Apply grade', prev => ({ ...prev, difficulty: gradeEstimate.grade }));
+  };
+
+  const handleUpdateProfile = (updated: ClimberProfile) => {
+      setProfiles(prev => prev.map(p => p.id === updated.id ? updated : p));
+  };
+
+  const handleCreateProfile = () => {
+      const created = { ...profile, id: createId(), name: `${profile.name} (copy)` };
+      setProfiles(prev => [...prev, created]);
+      setProfileId(created.id);
   };
 
+  const handleDeleteProfile = (id: string) => {
+      const remaining = profiles.filter(p => p.id !== id);
+      if (remaining.length === 0) return;
+      setProfiles(remaining);
+      if (id === profileId) setProfileId(remaining[0].id);
+  };
+
+  // --- Route Library ---
+
+  const savedLevel = savedLevels.find(l => l.id === level.id) || null;
+  const hasUnsavedChanges = useMemo(() => !savedLevel || JSON.stringify(savedLevel) !== JSON.stringify(level), [savedLevel, level]);
+
+  // Saving a sample or generated route makes a copy in My Routes; samples stay as shipped
+  const handleSaveLevel = () => {
+      if (!savedLevel) {
+          handleSaveLevelAs();
+          return;
+      }
+      setSavedLevels(prev => prev.map(l => l.id === level.id ? level : l));
+  };
+
+  const handleSaveLevelAs = () => {
+      const name = window.prompt('Save route as', savedLevel ? `${level.name} (copy)` : level.name);
+      if (!name) return;
+      const saved = { ...level, id: `user-${createId()}`, name: name.trim() || level.name };
+      setSavedLevels(prev => [...prev, saved]);
+      // Undo would bring back the old id, so the new route starts a fresh history
+      setLevel(saved);
+      setHistory(EMPTY_HISTORY);
+  };
+
+  const handleRenameLevel = () => {
+      const name = window.prompt('Rename route', level.name)?.trim();
+      if (!name) return;
+      // Undoable like any edit; undoing it leaves the library copy renamed, as unsaved changes
+      editLevel('Rename', prev => ({ ...prev, name }));
+      if (savedLevel) setSavedLevels(prev => prev.map(l => l.id === level.id ? { ...l, name } : l));
+  };
+
+  const handleDuplicateLevel = () => {
+      const copy = { ...level, id: `user-${createId()}`, name: `${level.name} (copy)` };
+      setSavedLevels(prev => [...prev, copy]);
+      handleLevelChange(copy);
+  };
+
+  const handleDeleteLevel = () => {
+      if (!savedLevel || !window.confirm(`Delete "${savedLevel.name}" from My Routes?`)) return;
+      setSavedLevels(prev => prev.filter(l => l.id !== savedLevel.id));
+      handleLevelChange(SAMPLE_LEVELS[0]);
+  };
+
+  const handleExportLevel = () => {
+      const url = URL.createObjectURL(new Blob([serializeLevel(level)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getLevelFileName(level);
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const handleImportLevel = async (file: File) => {
+      const result = parseLevelFile(await file.text());
+      if ('errors' in result) {
+          const shown = result.errors.slice(0, 10);
+          const more = result.errors.length - shown.length;
+          alert(`Couldn't import ${file.name}:\n\n${shown.join('\n')}${more > 0 ? `\n…and ${more} more` : ''}`);
+          return;
+      }
+      handleLevelChange(withUnusedId(result.level));
+  };
+
+  const handleCopyShareLink = async () => {
+      const url = await encodeShareLink(level, window.location.href);
+      try {
+          await navigator.clipboard.writeText(url);
+          return true;
+      } catch (e) {
+          // Clipboard blocked (insecure origin, permissions): let the player copy it by hand
+          window.prompt('Copy this link to share the route', url);
+          return false;
+      }
+  };
+
+  const handleCheckRoute = async () => {
+      const run = ++solveRunRef.current;
+      setIsSolving(true);
+      try {
+          const result = await solveRouteAsync(level, { realismMode, body, problemId: activeProblem?.id });
+          if (run === solveRunRef.current) setBetaResult(result);
+      } finally {
+          if (run === solveRunRef.current) setIsSolving(false);
+      }
+  };
+
+  // Model output can put holds off the wall, or leave out a coordinate altogether
+  const onWall = (lvl: Level, holds: Hold[]) =>
+      holds.filter(h => Number.isFinite(h.x) && Number.isFinite(h.y)).map(h => clampToWall(lvl, h));
+
   const handleGenerateLevel = async (desc: string) => {
     setIsGenerating(true);
     try {
         const newHolds = await generateLevel(desc);
-        setLevel(prev => ({
+        editLevel('AI generate', prev => withEstimatedGrade({
         ...prev,
         name: `AI: ${desc.substring(0, 15)}...`,
-        holds: newHolds
+        holds: onWall(prev, newHolds)
         }));
     } catch(e) {
         alert("Failed to generate level. Please try again.");
@@ -394,10 +721,10 @@ const App: React.FC = () => {
       setIsGenerating(true);
       try {
           const newHolds = await generateLevelFromImage(file);
-          setLevel(prev => ({
+          editLevel('Image import', prev => withEstimatedGrade({
               ...prev,
               name: `Import: ${file.name.substring(0, 10)}...`,
-              holds: newHolds
+              holds: onWall(prev, newHolds)
           }));
       } catch(e) {
           alert("Failed to process image. Make sure it's a clear photo of a wall.");
@@ -408,28 +735,38 @@ const App: React.FC = () => {
   };
 
   const handleLevelChange = (newLevel: Level) => {
+    const firstProblem = newLevel.problems?.[0]?.id ?? null;
     setLevel(newLevel);
+    setProblemId(firstProblem);
+    setSelectedHoldIds([]);
+    setHistory(EMPTY_HISTORY);
+    setPlayback(null);
     // Reset climber position
-    const startPos = getStartCom(newLevel);
-    setClimber({
-      limbs: getStartLimbs(newLevel),
-      stamina: INITIAL_STAMINA,
-      armPump: { left: 0, right: 0 },
-      chalk: INITIAL_CHALK,
-      balance: 0,
-      status: 'idle',
-      centerOfMass: startPos,
-      velocity: { x: 0, y: 0 }
-    });
-    setCoachAdvice(null);
-    setIsSlipping(false);
-    prevCOMRef.current = startPos;
+    restartClimb(newLevel, firstProblem);
   };
 
-  const filteredLevels = SAMPLE_LEVELS.filter(l => {
-      const isSport = (l.height || 100) > 150;
-      return climbingMode === 'sport' ? isSport : !isSport;
-  });
+  const handleApplySeed = (seed: number | null) => {
+    if (seed === null || level.seed === undefined) {
+        setSeedInput(level.seed !== undefined ? String(level.seed) : '');
+        return;
+    }
+    if (seed !== level.seed) handleLevelChange(regenerateSportRoute(level, seed));
+  };
+
+  // While watching a replay, the wall and HUD show the recording instead of the live climb
+  const displayedLevel = playback ? playback.timeline.log.level : level;
+  const displayedClimber = playbackClimber || climber;
+  const playbackTick = playback ? getReplayOutcomeAt(playback.timeline.log, playback.step) : null;
+  const displayedSlipping = playback
+      ? (playbackTick?.type === 'tick' && isSlippingAt(playbackTick.frictionPenalty, realismMode))
+      : isSlipping;
+
+  const ghostFrame = ghost && mode === 'play' && !playback ? getGhostFrameAt(ghost, getAttemptElapsedMs()) : null;
+  const ghostClimber = ghostFrame ? { ...climber, centerOfMass: ghostFrame.centerOfMass, limbs: ghostFrame.limbs } : null;
+
+  const matchesClimbingMode = (l: Level) => isSportRoute(l) === (climbingMode === 'sport');
+  const filteredLevels = SAMPLE_LEVELS.filter(matchesClimbingMode);
+  const filteredSavedLevels = savedLevels.filter(matchesClimbingMode);
 
   return (
     <div className="w-screen h-screen bg-stone-950 flex flex-col text-stone-100">
@@ -454,15 +791,30 @@ const App: React.FC = () => {
                             onClick={() => { setClimbingMode('sport'); handleLevelChange(SAMPLE_LEVELS.find(l => (l.height || 100) > 150) || SAMPLE_LEVELS[0]); }}
                             className={`px-3 py-1 text-xs rounded transition-colors ${climbingMode === 'sport' ? 'bg-indigo-600 text-white' : 'text-stone-400 hover:text-white'}`}
                         >
-                            Sport / Free Solo
+                            Sport
                         </button>
                     </div>
 
+                    {/* Protection Switcher */}
+                    {climbingMode === 'sport' && (
+                        <div className="flex bg-stone-800 rounded p-1 mr-2">
+                            {PROTECTION_MODES.map(({ mode: m, label }) => (
+                                <button
+                                    key={m}
+                                    onClick={() => { setProtectionMode(m); resetClimber(); }}
+                                    className={`px-3 py-1 text-xs rounded transition-colors ${protectionMode === m ? (m === 'freeSolo' ? 'bg-red-700 text-white' : 'bg-indigo-600 text-white') : 'text-stone-400 hover:text-white'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
                     <span className="text-xs text-gray-400 uppercase font-bold hidden md:inline">Route:</span>
                     <select
                         className="bg-stone-800 text-white text-sm px-3 py-1.5 rounded border border-stone-700 outline-none focus:border-yellow-500 min-w-[140px]"
                         onChange={(e) => {
-                             const selected = SAMPLE_LEVELS.find(l => l.id === e.target.value);
+                             const selected = [...SAMPLE_LEVELS, ...savedLevels].find(l => l.id === e.target.value);
                              if (selected) handleLevelChange(selected);
                         }}
                         value={level.id}
@@ -470,7 +822,49 @@ const App: React.FC = () => {
                         {filteredLevels.map((lvl) => (
                         <option key={lvl.id} value={lvl.id}>{lvl.name} ({lvl.difficulty})</option>
                         ))}
+                        {filteredSavedLevels.length > 0 && (
+                            <optgroup label="My Routes">
+                                {filteredSavedLevels.map((lvl) => (
+                                <option key={lvl.id} value={lvl.id}>{lvl.name} ({lvl.difficulty})</option>
+                                ))}
+                            </optgroup>
+                        )}
                     </select>
+
+                    {level.problems && level.problems.length > 0 && (
+                        <select
+                            className="bg-stone-800 text-white text-sm px-3 py-1.5 rounded border border-stone-700 outline-none focus:border-yellow-500 ml-2"
+                            onChange={(e) => handleSelectProblem(e.target.value)}
+                            value={activeProblem?.id ?? ''}
+                            title="Problem on this wall"
+                        >
+                            {level.problems.map(p => (
+                                <option key={p.id} value={p.id}>{p.name} ({p.grade})</option>
+                            ))}
+                        </select>
+                    )}
+
+                    {level.seed !== undefined && (
+                        <div className="flex items-center gap-1 ml-2">
+                            <span className="text-xs text-gray-400 uppercase font-bold hidden md:inline">Seed:</span>
+                            <input
+                                type="text"
+                                value={seedInput}
+                                onChange={(e) => setSeedInput(e.target.value)}
+                                onBlur={() => handleApplySeed(parseSeed(seedInput))}
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleApplySeed(parseSeed(seedInput)); }}
+                                className="bg-stone-800 text-white text-xs font-mono px-2 py-1.5 rounded border border-stone-700 outline-none focus:border-yellow-500 w-24"
+                                title="Same seed, same route. Type a number or any word."
+                            />
+                            <button
+                                onClick={() => handleApplySeed(randomSeed())}
+                                className="px-2 py-1 text-sm rounded bg-stone-800 border border-stone-700 hover:bg-stone-700"
+                                title="Reroll route"
+                            >
+                                🎲
+                            </button>
+                        </div>
+                    )}
                 </div>
             )}
 
@@ -493,34 +887,68 @@ const App: React.FC = () => {
         {/* Sidebar */}
         <aside className="w-80 bg-stone-900 border-r border-stone-800 p-6 flex flex-col gap-6 overflow-y-auto shrink-0 z-20 shadow-xl">
              {mode === 'play' ? (
+                <>
                 <GameHUD 
-                    state={climber} 
-                    levelName={level.name}
+                    state={displayedClimber} 
+                    levelName={displayedLevel.name}
                     onReset={resetClimber}
                     coachAdvice={coachAdvice}
                     infiniteStamina={infiniteStamina}
                     toggleInfiniteStamina={() => setInfiniteStamina(!infiniteStamina)}
                     realismMode={realismMode}
                     toggleRealismMode={() => setRealismMode(!realismMode)}
-                    isSlipping={isSlipping}
-                    wallAngle={level.angle || 0}
-                    height={level.height || 100}
+                    isSlipping={displayedSlipping}
+                    wallAngle={getWallAngleAt(displayedLevel, displayedClimber.centerOfMass.y)}
+                    height={displayedLevel.height || 100}
+                    ghostBestMs={playback ? null : ghost?.durationMs}
+                    splitDelta={playback ? null : splitDelta}
+                    landing={playback ? null : landing}
+                    protection={(playback ? playback.timeline.log.settings.protection : protection) || null}
+                    problem={getProblem(displayedLevel, displayedClimber.problemId)}
+                    startRule={getStartRule(displayedLevel)}
+                    finishRule={getFinishRule(displayedLevel)}
+                />
+                <ReplayPanel
+                    replays={replays[getLevelKey(level, activeProblem?.id)] || []}
+                    playback={playback}
+                    onWatch={handleWatchReplay}
+                    onTogglePlay={() => setPlayback(prev => prev && { ...prev, playing: !prev.playing })}
+                    onSeek={(step) => setPlayback(prev => prev && { ...prev, step, playing: false })}
+                    onSpeedChange={(speed) => setPlayback(prev => prev && { ...prev, speed })}
+                    onExit={() => setPlayback(null)}
                 />
+                <AttemptLog
+                    attempts={attempts[getLevelKey(level, activeProblem?.id)] || []}
+                    wallHeight={level.height || 100}
+                />
+                </>
              ) : (
-                <div className="flex flex-col gap-4 text-center items-center justify-center h-full text-stone-500">
+                <div className="flex flex-col gap-4 text-center items-center justify-center py-10 text-stone-500">
                     <div className="text-4xl">🛠️</div>
                     <p className="text-sm">Editor Mode Active</p>
                     <p className="text-xs">Select tools from the floating panel on the right to build your route.</p>
                 </div>
              )}
+
+             <ClimberProfilePanel
+                profiles={profiles}
+                selectedId={profile.id}
+                onSelect={setProfileId}
+                onUpdate={handleUpdateProfile}
+                onCreate={handleCreateProfile}
+                onDelete={handleDeleteProfile}
+             />
              
              {/* Instructions Footer in Sidebar */}
              <div className="mt-auto pt-6 border-t border-stone-800 text-xs text-stone-500 leading-relaxed">
                 <p className="font-bold text-stone-400 mb-1">Controls:</p>
                 <ul className="list-disc pl-4 space-y-1">
                     <li>Drag <span className="text-blue-400">hands</span> and <span className="text-yellow-500">feet</span></li>
-                    <li>Drag <span className="text-white">body</span> to swing/dyno</li>
+                    <li>Drag <span className="text-white">body</span> to swing</li>
+                    <li>Hold <span className="text-yellow-400">Space</span> to charge a dyno, aim with the mouse, release to jump</li>
                     <li>Press <span className="text-yellow-400">'C'</span> to Chalk Up</li>
+                    <li>Press <span className="text-cyan-400">'Q'</span> or click a glowing bolt to clip the rope with a free hand</li>
+                    <li>Hold <span className="text-orange-400">Shift</span> / <span className="text-purple-400">Alt</span> while dropping a foot to heel / toe hook, or right-click a placed foot</li>
                     <li className={realismMode ? "text-red-400 font-bold" : ""}>{realismMode ? "Watch your pull angles!" : "Have fun!"}</li>
                 </ul>
              </div>
@@ -530,16 +958,28 @@ const App: React.FC = () => {
         <main className="flex-1 relative p-6 flex justify-center items-center bg-[url('https://www.transparenttextures.com/patterns/dark-matter.png')] overflow-hidden">
             <div className="w-full max-w-3xl h-full max-h-[95vh] relative flex flex-col justify-center">
                 <BoulderingWall 
-                    level={level}
-                    climberState={climber}
+                    level={displayedLevel}
+                    climberState={displayedClimber}
                     isEditorMode={mode === 'editor'}
-                    onHoldClick={handleEditorHoldClick}
+                    readOnly={playback !== null}
+                    selectedHoldIds={selectedHoldIds}
+                    onSelectHolds={setSelectedHoldIds}
+                    onMoveHolds={handleMoveHolds}
+                    onRotateHold={handleRotateHold}
                     onPlaceLimb={handlePlaceLimb}
                     onCanvasClick={handleEditorCanvasClick}
                     onUpdateCOM={handleUpdateCOM}
                     onDragStart={() => setIsUserDragging(true)}
                     onDragEnd={() => setIsUserDragging(false)}
+                    onDyno={(charge, aim) => dispatchInput({ kind: 'dyno', charge, aim })}
+                    onClip={(boltId) => dispatchInput({ kind: 'clip', boltId })}
+                    protection={playback ? playback.timeline.log.settings.protection : protection}
                     realismMode={realismMode}
+                    ghostState={ghostClimber}
+                    body={playback ? playback.timeline.log.settings.body : body}
+                    ghostBody={ghost?.body}
+                    highlightedHoldIds={mode === 'editor' && selectedIssue ? selectedIssue.holdIds : undefined}
+                    problem={mode === 'editor' ? null : getProblem(displayedLevel, displayedClimber.problemId)}
                 />
 
                 {mode === 'editor' && (
@@ -548,13 +988,51 @@ const App: React.FC = () => {
                         setCurrentTool={setEditorTool}
                         currentColor={editorColor}
                         setCurrentColor={setEditorColor}
+                        holdAttributes={editorAttributes}
+                        setHoldAttributes={setEditorAttributes}
                         onGenerateLevel={handleGenerateLevel}
                         onUploadImage={handleImageUpload}
                         isGenerating={isGenerating}
-                        onClear={() => setLevel(l => ({ ...l, holds: [] }))}
-                        onSave={() => alert("Level saved (mock)!")}
+                        onClear={() => editLevel('Clear all', l => ({ ...l, holds: [], problems: undefined }))}
+                        onUndo={handleUndo}
+                        onRedo={handleRedo}
+                        undoLabel={history.past.length > 0 ? history.past[history.past.length - 1].label : null}
+                        redoLabel={history.future.length > 0 ? history.future[0].label : null}
+                        levelName={level.name}
+                        isSaved={savedLevel !== null}
+                        hasUnsavedChanges={hasUnsavedChanges}
+                        onSave={handleSaveLevel}
+                        onSaveAs={handleSaveLevelAs}
+                        onRename={handleRenameLevel}
+                        onDuplicate={handleDuplicateLevel}
+                        onDelete={handleDeleteLevel}
+                        onExport={handleExportLevel}
+                        onImportFile={handleImportLevel}
+                        onCopyShareLink={handleCopyShareLink}
                         angle={level.angle || 0}
                         onUpdateAngle={handleUpdateAngle}
+                        sections={level.sections || []}
+                        onUpdateSections={handleUpdateSections}
+                        wallHeight={level.height || 100}
+                        onCheckRoute={handleCheckRoute}
+                        betaResult={betaResult}
+                        isSolving={isSolving}
+                        realismMode={realismMode}
+                        difficulty={level.difficulty}
+                        gradeEstimate={gradeEstimate}
+                        onApplyGrade={handleApplyGrade}
+                        lintIssues={lintIssues}
+                        selectedIssueId={selectedIssue?.id ?? null}
+                        onSelectIssue={(issue) => setSelectedIssueId(issue ? issue.id : null)}
+                        selectedHolds={level.holds.filter(h => selectedHoldIds.includes(h.id))}
+                        onUpdateSelectedHolds={handleUpdateSelectedHolds}
+                        onDeleteSelectedHolds={handleDeleteSelectedHolds}
+                        problems={level.problems || []}
+                        onUpdateProblems={handleUpdateProblems}
+                        onAddProblem={handleAddProblem}
+                        startRule={getStartRule(level)}
+                        finishRule={getFinishRule(level)}
+                        onUpdateRules={handleUpdateRules}
                     />
                 )}
             </div>
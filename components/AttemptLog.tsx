@@ -0,0 +1,93 @@
+import React from 'react';
+import { AttemptRecord, AttemptResult, SendStyle } from '../types';
+import { getAttemptStats, getSendStyles } from '../utils/attempts';
+
+interface AttemptLogProps {
+  attempts: AttemptRecord[]; // This route's, oldest first
+  wallHeight: number;
+}
+
+// Newest attempts listed; the stats cover all of them
+const VISIBLE_ATTEMPTS = 8;
+
+const RESULT_STYLES: Record<AttemptResult, string> = {
+    topped: 'bg-green-900/60 text-green-300 border-green-700',
+    fell: 'bg-red-900/60 text-red-300 border-red-700',
+    reset: 'bg-stone-700 text-stone-300 border-stone-600',
+};
+
+const SEND_STYLES: Record<SendStyle, { label: string; className: string }> = {
+    flash: { label: 'FLASH', className: 'text-yellow-300' },
+    send: { label: 'SEND', className: 'text-green-300' },
+    repeat: { label: 'REPEAT', className: 'text-cyan-300' },
+};
+
+const AttemptLog: React.FC<AttemptLogProps> = ({ attempts, wallHeight }) => {
+  if (attempts.length === 0) return null;
+
+  const stats = getAttemptStats(attempts);
+  const styles = getSendStyles(attempts);
+
+  // High points as a share of the wall; over the lip of a top-out is the whole wall
+  const heightPercent = (y: number) => Math.max(0, Math.min(100, Math.round((wallHeight - y) / wallHeight * 100)));
+
+  const recent = attempts
+      .map((attempt, i) => ({ attempt, number: i + 1, style: styles[i] }))
+      .slice(-VISIBLE_ATTEMPTS)
+      .reverse();
+
+  return (
+    <div className="bg-stone-800 p-4 rounded-xl border border-stone-700 shadow-lg">
+        <div className="flex justify-between items-center mb-2">
+            <h3 className="text-sm font-bold uppercase tracking-wider text-gray-300">Logbook</h3>
+            {stats.firstSend ? (
+                <span className={`text-[10px] font-bold ${SEND_STYLES[stats.firstSend.style].className}`}>
+                    {stats.firstSend.style === 'flash' ? '⚡ FLASHED' : `✓ SENT ON GO ${stats.firstSend.attempt}`}
+                </span>
+            ) : (
+                <span className="text-[10px] font-bold text-stone-400">PROJECT</span>
+            )}
+        </div>
+
+        <div className="grid grid-cols-4 gap-1 text-center mb-3">
+            {[
+                { label: 'Attempts', value: stats.attempts },
+                { label: 'Sends', value: stats.sends },
+                { label: 'Repeats', value: stats.repeats },
+                { label: 'High', value: stats.bestHighPoint === null ? '-' : `${heightPercent(stats.bestHighPoint)}%` },
+            ].map(({ label, value }) => (
+                <div key={label} className="bg-stone-900/50 rounded py-1 border border-stone-700/50">
+                    <div className="text-sm font-bold text-white">{value}</div>
+                    <div className="text-[9px] uppercase text-stone-500">{label}</div>
+                </div>
+            ))}
+        </div>
+
+        <ul className="flex flex-col gap-1.5">
+            {recent.map(({ attempt, number, style }) => (
+                <li key={attempt.id} className="flex items-center gap-2 text-xs">
+                    <span className="font-mono text-stone-500 w-6 text-right">#{number}</span>
+                    <span className={`px-1.5 py-0.5 rounded border uppercase text-[9px] font-bold w-14 text-center ${RESULT_STYLES[attempt.result]}`}>
+                        {attempt.result}
+                    </span>
+                    {style && <span className={`text-[9px] font-bold ${SEND_STYLES[style].className}`}>{SEND_STYLES[style].label}</span>}
+                    {attempt.infiniteStamina && <span className="text-[9px] text-yellow-500 font-bold" title="Infinite stamina: doesn't count as a send">∞</span>}
+                    {attempt.realismMode && <span className="text-[9px] text-red-300 font-bold" title="Realism mode">R</span>}
+                    {attempt.offRoute && <span className="text-[9px] text-red-400 font-bold">OFF-ROUTE</span>}
+                    {attempt.invalidStart && <span className="text-[9px] text-red-400 font-bold">INVALID START</span>}
+                    {attempt.weightedRope && <span className="text-[9px] text-orange-300 font-bold" title="Weighted the rope: doesn't count as a send">HUNG</span>}
+                    <span className="flex-1" />
+                    <span
+                        className="font-mono text-gray-400"
+                        title={`Ended with ${attempt.stamina}% energy, pump L ${attempt.armPump.left}% / R ${attempt.armPump.right}%`}
+                    >
+                        {heightPercent(attempt.highPoint)}% · {(attempt.durationMs / 1000).toFixed(1)}s
+                    </span>
+                </li>
+            ))}
+        </ul>
+    </div>
+  );
+};
+
+export default AttemptLog;
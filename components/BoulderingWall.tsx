@@ -1,79 +1,234 @@
 
-import React, { useState, useRef } from 'react';
-import { Hold, ClimberState, Limb, Level, Point, AttachedLimb } from '../types';
-import { HOLD_COLORS, ANATOMY, MAX_REACH } from '../constants';
+import React, { useState, useRef, useEffect } from 'react';
+import { Hold, ClimberState, Limb, Level, Point, AttachedLimb, ClimberBody, FootEngagement, ProtectionMode, WallSection, Problem } from '../types';
+import { HOLD_COLORS, HOLD_RADIUS } from '../constants';
 import ClimberAvatar from './ClimberAvatar';
-import { isReachable, constrainBodyPosition, calculateDistance, isAttached } from '../utils/gameUtils';
+import { isReachable, constrainBodyPosition, calculateDistance, isAttached, getHoldAttributes, getHoldSnapRadius, getFootEngagement, getHoldRejection } from '../utils/gameUtils';
+import { DEFAULT_BODY, getLimbAnchor, getLimbAnchorOffset, getLimbReach } from '../utils/body';
+import { getWallAngleAt, getWallProfile } from '../utils/wall';
+import { isOnProblem, isStartHold, isFinishHold } from '../utils/problems';
+import { DYNO_FULL_CHARGE_MS, getCrashPads, getTopRopeAnchor, canDyno, canClip, getDynoLaunchVelocity, predictDynoArc } from '../utils/simulation';
+import { TOP_OUT_ZONE, hasLip, getLipPlacement } from '../utils/topOut';
 
 interface BoulderingWallProps {
   level: Level;
   climberState: ClimberState;
   isEditorMode: boolean;
-  onHoldClick: (hold: Hold) => void;
+  readOnly?: boolean; // Replay playback: render only, no dragging
+  selectedHoldIds?: string[]; // Editor selection
+  onSelectHolds?: (ids: string[]) => void;
+  onMoveHolds?: (ids: string[], delta: Point) => void;
+  onRotateHold?: (id: string, rotation: number) => void;
   onPlaceLimb: (target: AttachedLimb | Point | null, limb: Limb) => void;
   onCanvasClick: (x: number, y: number) => void;
   onUpdateCOM: (newCOM: Point) => void;
   onDragStart: () => void;
   onDragEnd: () => void;
+  onDyno?: (charge: number, aim: Point) => void;
+  onClip?: (boltId: string) => void;
   realismMode: boolean;
+  protection?: ProtectionMode; // Sport routes: decides how the rope is rigged
+  ghostState?: ClimberState | null; // Best send, raced alongside the live climber
+  highlightedHoldIds?: string[]; // Holds flagged by the route linter
+  problem?: Problem | null; // Circuit walls: holds off this problem are dimmed
+  body?: ClimberBody;
+  ghostBody?: ClimberBody; // The ghost may have been climbed with a different profile
 }
 
-const AngleIndicator = ({ angle }: { angle: number }) => {
-    const length = 28;
-    const startX = 15;
-    const startY = 40;
-    const rad = (angle * Math.PI) / 180;
-    const endX = startX + length * Math.sin(rad);
-    const endY = startY - length * Math.cos(rad);
+// Side view of the whole face. Each section leans out by its length times tan(angle),
+// scaled to fit the panel, with the climber's height marked on it.
+const AngleIndicator = ({ profile, height, climberY }: { profile: WallSection[]; height: number; climberY: number }) => {
+    const groundX = 15;
+    const groundY = 40;
+    const lean = (s: WallSection) => (s.bottom - s.top) * Math.tan((Math.max(-80, Math.min(80, s.angle)) * Math.PI) / 180);
+
+    // Wall outline from the ground up, in wall units
+    const outline: Point[] = [{ x: 0, y: height }];
+    [...profile].reverse().forEach(s => {
+        const last = outline[outline.length - 1];
+        outline.push({ x: last.x + lean(s), y: s.top });
+    });
+    const maxX = Math.max(...outline.map(p => p.x));
+    const minX = Math.min(...outline.map(p => p.x));
+    const scale = Math.min(35 / height, maxX > 0 ? 32 / maxX : Infinity, minX < 0 ? 13 / -minX : Infinity);
+    const toView = (p: Point) => ({ x: groundX + p.x * scale, y: groundY - (height - p.y) * scale });
+
+    const current = profile.find(s => climberY >= s.top && climberY < s.bottom) || profile[profile.length - 1];
+    const upperIndex = Math.max(1, outline.findIndex((p, i) => i > 0 && p.y <= climberY));
+    const upper = outline[upperIndex] || outline[outline.length - 1];
+    const lower = outline[upperIndex - 1];
+    const t = lower.y === upper.y ? 0 : Math.max(0, Math.min(1, (lower.y - climberY) / (lower.y - upper.y)));
+    const marker = toView({ x: lower.x + (upper.x - lower.x) * t, y: climberY });
 
     return (
         <div className="absolute bottom-4 right-4 w-20 h-24 bg-slate-900/90 backdrop-blur rounded-lg border border-slate-700 shadow-xl z-20 flex flex-col items-center justify-center pointer-events-none select-none transition-all duration-300 hover:scale-105 hover:bg-slate-800">
             <div className="text-[9px] text-slate-500 font-bold tracking-widest uppercase mb-1">Side View</div>
             <svg width="50" height="50" viewBox="0 0 50 50" className="overflow-visible">
                 <line x1="0" y1="40" x2="50" y2="40" stroke="#64748b" strokeWidth="2" strokeLinecap="round" />
-                <line x1={startX} y1="40" x2={startX} y2="5" stroke="#475569" strokeWidth="1" strokeDasharray="2,2" />
-                <path d={`M ${startX} 40 L ${endX} ${endY}`} stroke="#fbbf24" strokeWidth="3" strokeLinecap="round" />
-                {angle > 0 && (
-                    <path 
-                        d={`M ${startX} 30 A 10 10 0 0 1 ${startX + 10 * Math.sin(rad)} ${40 - 10 * Math.cos(rad)}`}
-                        fill="none" 
-                        stroke="#fbbf24" 
-                        strokeWidth="1"
-                        opacity="0.5"
-                    />
-                )}
-                <circle cx={startX + (length/2) * Math.sin(rad)} cy={40 - (length/2) * Math.cos(rad)} r="2.5" fill="#38bdf8" />
+                <line x1={groundX} y1="40" x2={groundX} y2="5" stroke="#475569" strokeWidth="1" strokeDasharray="2,2" />
+                <polyline
+                    points={outline.map(toView).map(p => `${p.x},${p.y}`).join(' ')}
+                    fill="none"
+                    stroke="#fbbf24"
+                    strokeWidth="3"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                />
+                <circle cx={marker.x} cy={marker.y} r="2.5" fill="#38bdf8" />
             </svg>
-            <div className="text-xs font-mono font-bold text-yellow-500 mt-1">{angle}°</div>
+            <div className="text-xs font-mono font-bold text-yellow-500 mt-1">{current.angle}°</div>
         </div>
     );
 };
 
+const FOOT_MODES: { mode: FootEngagement; label: string; hint: string }[] = [
+    { mode: 'stand', label: 'Stand', hint: '' },
+    { mode: 'heel', label: 'Heel Hook', hint: 'Shift' },
+    { mode: 'toe', label: 'Toe Hook', hint: 'Alt' },
+];
+
+// Modifier held while dropping a foot on a hold
+const getDropEngagement = (e: React.MouseEvent): FootEngagement => e.shiftKey ? 'heel' : e.altKey ? 'toe' : 'stand';
+
+const withEngagement = (target: AttachedLimb, engagement: FootEngagement): AttachedLimb => {
+    const { engagement: _previous, ...rest } = target;
+    return engagement === 'stand' ? rest : { ...rest, engagement };
+};
+
+// Editor pointer gestures. Moves and rotations preview locally and commit once on release.
+type EditorDrag =
+    | { kind: 'move'; ids: string[]; start: Point; current: Point }
+    | { kind: 'rotate'; id: string; rotation: number }
+    | { kind: 'box'; start: Point; current: Point; additive: boolean };
+
+// Space types, ticks or presses in these; only keys aimed at the page charge the dyno
+const isTypingTarget = (target: EventTarget | null) => {
+    const el = target as HTMLElement | null;
+    return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(el.tagName));
+};
+
+// A press that travels less than this is a click
+const CLICK_TOLERANCE = 0.8;
+
+// Rotation handles sit this far outside the hold's footprint
+const ROTATE_HANDLE_GAP = 4;
+
+const getRotateHandleDistance = (hold: Hold) => HOLD_RADIUS[hold.type] * getHoldAttributes(hold).size + ROTATE_HANDLE_GAP;
+
 const BoulderingWall: React.FC<BoulderingWallProps> = ({
   level,
   climberState,
   isEditorMode,
-  onHoldClick,
+  readOnly = false,
+  selectedHoldIds = [],
+  onSelectHolds,
+  onMoveHolds,
+  onRotateHold,
   onPlaceLimb,
   onCanvasClick,
   onUpdateCOM,
   onDragStart,
   onDragEnd,
-  realismMode
+  onDyno,
+  onClip,
+  realismMode,
+  protection,
+  ghostState,
+  highlightedHoldIds = [],
+  problem = null,
+  body = DEFAULT_BODY,
+  ghostBody = DEFAULT_BODY
 }) => {
   const [dragTarget, setDragTarget] = useState<'COM' | Limb | null>(null);
   const [draggedLimbPos, setDraggedLimbPos] = useState<Point | null>(null);
   const [dragOffset, setDragOffset] = useState<Point>({x: 0, y: 0});
+  const [footMenu, setFootMenu] = useState<{ limb: Limb; x: number; y: number } | null>(null);
+  const [rejection, setRejection] = useState<{ x: number; y: number; reason: string } | null>(null);
+  const [editorDrag, setEditorDrag] = useState<EditorDrag | null>(null);
+
+  // The refused-placement cue fades out on its own
+  useEffect(() => {
+      if (!rejection) return;
+      const timer = setTimeout(() => setRejection(null), 900);
+      return () => clearTimeout(timer);
+  }, [rejection]);
   const svgRef = useRef<SVGSVGElement>(null);
 
+  // Dyno: hold Space to charge, aim with the pointer, release to jump
+  const [dynoCharge, setDynoCharge] = useState<number | null>(null);
+  const chargeStartRef = useRef<number | null>(null);
+  const pointerRef = useRef<Point | null>(null);
+  const dynoEnabled = !isEditorMode && !readOnly && !!onDyno && canDyno(climberState) && dragTarget === null;
+
+  const getDynoAim = (): Point => {
+      const p = pointerRef.current;
+      if (!p) return { x: 0, y: -1 };
+      return { x: p.x - climberState.centerOfMass.x, y: p.y - climberState.centerOfMass.y };
+  };
+
+  useEffect(() => {
+      if (!dynoEnabled) {
+          chargeStartRef.current = null;
+          setDynoCharge(null);
+          return;
+      }
+
+      let frame = 0;
+      const tick = () => {
+          if (chargeStartRef.current === null) return;
+          setDynoCharge(Math.min(1, (performance.now() - chargeStartRef.current) / DYNO_FULL_CHARGE_MS));
+          frame = requestAnimationFrame(tick);
+      };
+
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+          e.preventDefault();
+          if (e.repeat || chargeStartRef.current !== null) return;
+          chargeStartRef.current = performance.now();
+          tick();
+      };
+
+      const handleKeyUp = (e: KeyboardEvent) => {
+          if (e.code !== 'Space' || chargeStartRef.current === null) return;
+          e.preventDefault();
+          const charge = Math.min(1, (performance.now() - chargeStartRef.current) / DYNO_FULL_CHARGE_MS);
+          chargeStartRef.current = null;
+          setDynoCharge(null);
+          onDyno?.(charge, getDynoAim());
+      };
+
+      window.addEventListener('keydown', handleKeyDown);
+      window.addEventListener('keyup', handleKeyUp);
+      // Re-bound mid-charge (the climber moved): keep the meter running
+      if (chargeStartRef.current !== null) tick();
+      return () => {
+          cancelAnimationFrame(frame);
+          window.removeEventListener('keydown', handleKeyDown);
+          window.removeEventListener('keyup', handleKeyUp);
+      };
+  }, [dynoEnabled, climberState.centerOfMass.x, climberState.centerOfMass.y, onDyno]);
+
   const wallHeight = level.height || 100;
+
+  // Rope from the belayer, through the anchor or every clip, to the climber's harness
+  const belayer = { x: 35, y: wallHeight };
+  let ropePath: Point[] | null = null;
+  if (protection === 'topRope') {
+      ropePath = [belayer, getTopRopeAnchor(level), climberState.centerOfMass];
+  } else if (protection !== 'freeSolo' && level.bolts && level.bolts.length > 0) {
+      const clipped = (climberState.clips || [])
+          .map(id => level.bolts!.find(b => b.id === id))
+          .filter((b): b is NonNullable<typeof b> => !!b)
+          .map(b => ({ x: b.x, y: b.y + 3.2 })); // Through the draw's lower carabiner
+      ropePath = [belayer, ...clipped, climberState.centerOfMass];
+  }
   
   // Camera Logic
   // Center climber on screen vertically (offset 60% down)
   const viewHeight = 100;
   let camY = climberState.centerOfMass.y - 60;
-  // Clamp Camera - Allow seeing the floor (wallHeight) at bottom
-  camY = Math.max(0, Math.min(camY, wallHeight - viewHeight + 5)); 
+  // Clamp Camera - Allow seeing the floor (wallHeight) at bottom, and the top on top-out problems
+  camY = Math.max(hasLip(level) ? -TOP_OUT_ZONE : 0, Math.min(camY, wallHeight - viewHeight + 5)); 
   
   const viewBox = `0 ${camY} 100 ${viewHeight}`;
 
@@ -96,15 +251,106 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
   };
 
   const handleMouseDown = (e: React.MouseEvent) => {
+    setFootMenu(null);
     if (isEditorMode) {
+        // Empty wall: a click adds a hold (or drops the selection), a drag draws a selection box
         const p = getSVGPoint(e.clientX, e.clientY);
-        onCanvasClick(p.x, p.y);
+        setEditorDrag({ kind: 'box', start: p, current: p, additive: e.shiftKey });
         return;
     }
   };
 
+  const handleHoldMouseDown = (hold: Hold, e: React.MouseEvent) => {
+      if (!isEditorMode) return;
+      e.stopPropagation();
+      setFootMenu(null);
+
+      if (e.shiftKey) {
+          onSelectHolds?.(selectedHoldIds.includes(hold.id)
+              ? selectedHoldIds.filter(id => id !== hold.id)
+              : [...selectedHoldIds, hold.id]);
+          return;
+      }
+
+      // Grabbing an unselected hold selects just that one; grabbing a selected one moves the lot
+      const ids = selectedHoldIds.includes(hold.id) ? selectedHoldIds : [hold.id];
+      if (ids !== selectedHoldIds) onSelectHolds?.(ids);
+      const p = getSVGPoint(e.clientX, e.clientY);
+      setEditorDrag({ kind: 'move', ids, start: p, current: p });
+  };
+
+  const handleRotateMouseDown = (hold: Hold, e: React.MouseEvent) => {
+      e.stopPropagation();
+      setEditorDrag({ kind: 'rotate', id: hold.id, rotation: hold.rotation });
+  };
+
+  const handleEditorMouseMove = (e: React.MouseEvent) => {
+      if (!editorDrag) return;
+      const p = getSVGPoint(e.clientX, e.clientY);
+      if (editorDrag.kind === 'rotate') {
+          const hold = level.holds.find(h => h.id === editorDrag.id);
+          if (!hold) return;
+          // The handle sits straight above an unrotated hold
+          let rotation = Math.atan2(p.y - hold.y, p.x - hold.x) * 180 / Math.PI + 90;
+          if (e.shiftKey) rotation = Math.round(rotation / 15) * 15;
+          setEditorDrag({ ...editorDrag, rotation: Math.round((rotation + 360) % 360) });
+      } else {
+          setEditorDrag({ ...editorDrag, current: p });
+      }
+  };
+
+  const handleEditorMouseUp = () => {
+      const drag = editorDrag;
+      setEditorDrag(null);
+      if (!drag) return;
+
+      if (drag.kind === 'rotate') {
+          onRotateHold?.(drag.id, drag.rotation);
+          return;
+      }
+
+      const dx = drag.current.x - drag.start.x;
+      const dy = drag.current.y - drag.start.y;
+      const isClick = Math.abs(dx) < CLICK_TOLERANCE && Math.abs(dy) < CLICK_TOLERANCE;
+
+      if (drag.kind === 'move') {
+          if (!isClick) onMoveHolds?.(drag.ids, { x: dx, y: dy });
+          return;
+      }
+
+      if (isClick) {
+          if (selectedHoldIds.length > 0 && !drag.additive) onSelectHolds?.([]);
+          else onCanvasClick(drag.start.x, drag.start.y);
+          return;
+      }
+
+      const box = getBoxBounds(drag.start, drag.current);
+      const boxed = level.holds
+          .filter(h => h.x >= box.x && h.x <= box.x + box.width && h.y >= box.y && h.y <= box.y + box.height)
+          .map(h => h.id);
+      onSelectHolds?.(drag.additive ? Array.from(new Set([...selectedHoldIds, ...boxed])) : boxed);
+  };
+
+  const getBoxBounds = (a: Point, b: Point) => ({
+      x: Math.min(a.x, b.x),
+      y: Math.min(a.y, b.y),
+      width: Math.abs(a.x - b.x),
+      height: Math.abs(a.y - b.y)
+  });
+
+  // Holds as they'd be if the current gesture were released now
+  const getPreviewHold = (hold: Hold): Hold => {
+      if (editorDrag?.kind === 'move' && editorDrag.ids.includes(hold.id)) {
+          return { ...hold, x: hold.x + editorDrag.current.x - editorDrag.start.x, y: hold.y + editorDrag.current.y - editorDrag.start.y };
+      }
+      if (editorDrag?.kind === 'rotate' && editorDrag.id === hold.id) {
+          return { ...hold, rotation: editorDrag.rotation };
+      }
+      return hold;
+  };
+
   const handleBodyDragStart = (e: React.MouseEvent) => {
-    if (isEditorMode || climberState.status === 'topped' || climberState.status === 'falling') return;
+    if (isEditorMode || readOnly || climberState.status === 'topped' || climberState.status === 'falling' || climberState.status === 'decked') return;
     
     // Check constraints to prevent "Flying"
     const attachedCount = Object.values(climberState.limbs).filter(isAttached).length;
@@ -124,13 +370,33 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
   };
 
   const handleLimbDragStart = (limb: Limb) => {
-      if (isEditorMode) return;
-      if (climberState.status === 'topped') return; 
+      if (isEditorMode || readOnly) return;
+      if (climberState.status === 'topped' || climberState.status === 'decked') return; 
+      if (climberState.mantle !== undefined) return; // The mantle moves the limbs
       setDragTarget(limb);
       onDragStart(); 
   };
 
+  const handleFootContextMenu = (limb: Limb, e: React.MouseEvent) => {
+      e.preventDefault();
+      if (isEditorMode || readOnly || !isAttached(climberState.limbs[limb])) return;
+      const foot = climberState.limbs[limb]!;
+      setFootMenu({ limb, x: foot.x, y: foot.y });
+  };
+
+  const handleSelectFootMode = (mode: FootEngagement) => {
+      if (!footMenu) return;
+      const foot = climberState.limbs[footMenu.limb];
+      if (isAttached(foot)) onPlaceLimb(withEngagement(foot, mode), footMenu.limb);
+      setFootMenu(null);
+  };
+
   const handleMouseMove = (e: React.MouseEvent) => {
+      pointerRef.current = getSVGPoint(e.clientX, e.clientY);
+      if (isEditorMode) {
+          handleEditorMouseMove(e);
+          return;
+      }
       if (!dragTarget) return;
 
       const p = getSVGPoint(e.clientX, e.clientY);
@@ -160,7 +426,7 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
 
               // Still apply body constraints so we don't detach feet by "walking" away from them
               // Note: Standing feet are Points (not AttachedLimb), but constraint function handles Points too.
-              walkCOM = constrainBodyPosition(walkCOM, climberState.limbs, level.holds);
+              walkCOM = constrainBodyPosition(walkCOM, climberState.limbs, level.holds, body);
               
               // Hard clamp Y again in case constraint tried to lift us or push us down
               walkCOM.y = standingHeight;
@@ -175,15 +441,8 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
           Object.entries(climberState.limbs).forEach(([limbName, val]) => {
               if (isAttached(val)) {
                   const limb = limbName as Limb;
-                  let anchorOffset = { x: 0, y: 0 };
-                  let maxLen = 0;
-                  
-                  if (limb === 'leftHand') { anchorOffset = { x: -ANATOMY.shoulderWidth/2, y: -ANATOMY.torsoHeight * 0.85 }; maxLen = MAX_REACH.hand; }
-                  else if (limb === 'rightHand') { anchorOffset = { x: ANATOMY.shoulderWidth/2, y: -ANATOMY.torsoHeight * 0.85 }; maxLen = MAX_REACH.hand; }
-                  else if (limb === 'leftFoot') { anchorOffset = { x: -ANATOMY.hipWidth/2, y: 1.5 }; maxLen = MAX_REACH.foot; }
-                  else if (limb === 'rightFoot') { anchorOffset = { x: ANATOMY.hipWidth/2, y: 1.5 }; maxLen = MAX_REACH.foot; }
-
-                  const anchorPos = { x: com.x + anchorOffset.x, y: com.y + anchorOffset.y };
+                  const anchorPos = getLimbAnchor(body, com, limb);
+                  const maxLen = getLimbReach(body, limb);
                   const dist = calculateDistance(anchorPos, { x: val.x, y: val.y });
 
                   // AUTO-DETACH: If pulling body away from limb, break the hold
@@ -195,7 +454,7 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
 
           // Even when dragging, we constrain to limb max reach to prevent impossible stretches
           // But we use the dragOffset-adjusted COM as the target
-          const constrainedCOM = constrainBodyPosition(com, climberState.limbs, level.holds);
+          const constrainedCOM = constrainBodyPosition(com, climberState.limbs, level.holds, body);
           onUpdateCOM(constrainedCOM);
       } else {
           // Dragging a Limb
@@ -204,14 +463,8 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
           // --- BODY PULL LOGIC ---
           // When dragging a limb far enough, it should pull the body
           const com = climberState.centerOfMass;
-          let anchorOffset = { x: 0, y: 0 };
-          let maxLen = 0;
-
-          if (dragTarget === 'leftHand') { anchorOffset = { x: -ANATOMY.shoulderWidth/2, y: -ANATOMY.torsoHeight * 0.85 }; maxLen = MAX_REACH.hand; }
-          else if (dragTarget === 'rightHand') { anchorOffset = { x: ANATOMY.shoulderWidth/2, y: -ANATOMY.torsoHeight * 0.85 }; maxLen = MAX_REACH.hand; }
-          else if (dragTarget === 'leftFoot') { anchorOffset = { x: -ANATOMY.hipWidth/2, y: 1.5 }; maxLen = MAX_REACH.foot; }
-          else if (dragTarget === 'rightFoot') { anchorOffset = { x: ANATOMY.hipWidth/2, y: 1.5 }; maxLen = MAX_REACH.foot; }
-
+          const anchorOffset = getLimbAnchorOffset(body, dragTarget);
+          const maxLen = getLimbReach(body, dragTarget);
           const anchorPos = { x: com.x + anchorOffset.x, y: com.y + anchorOffset.y };
           const dist = calculateDistance(anchorPos, p);
           
@@ -244,7 +497,7 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
               draggingLimbsOverride[dragTarget] = { x: p.x, y: p.y }; // Use mouse pos as virtual limb pos
 
               // Ensure this new body position doesn't violate OTHER attached limbs
-              newCOM = constrainBodyPosition(newCOM, draggingLimbsOverride, level.holds);
+              newCOM = constrainBodyPosition(newCOM, draggingLimbsOverride, level.holds, body);
               
               onUpdateCOM(newCOM);
           }
@@ -252,31 +505,21 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
   };
 
   const handleMouseUp = (e: React.MouseEvent) => {
+      if (isEditorMode) {
+          handleEditorMouseUp();
+          return;
+      }
       if (dragTarget && dragTarget !== 'COM') {
           const p = getSVGPoint(e.clientX, e.clientY);
           
-          const closestHold = level.holds.find(h => calculateDistance(p, {x: h.x, y: h.y}) < 6);
+          // Big holds catch a limb dropped further from their center
+          const closestHold = level.holds.find(h => calculateDistance(p, {x: h.x, y: h.y}) < Math.max(6, getHoldSnapRadius(h) + 3));
           
-          const com = climberState.centerOfMass;
-          let origin = com;
-          let maxLen = 0;
-          
-           if (dragTarget.includes('Hand')) {
-              origin = { 
-                  x: dragTarget === 'leftHand' ? com.x - ANATOMY.shoulderWidth/2 : com.x + ANATOMY.shoulderWidth/2, 
-                  y: com.y - ANATOMY.torsoHeight * 0.85
-              };
-              maxLen = MAX_REACH.hand;
-          } else {
-              origin = { 
-                  x: dragTarget === 'leftFoot' ? com.x - ANATOMY.hipWidth/2 : com.x + ANATOMY.hipWidth/2, 
-                  y: com.y + 1.5
-              };
-              maxLen = MAX_REACH.foot;
-          }
+          const origin = getLimbAnchor(body, climberState.centerOfMass, dragTarget);
+          const maxLen = getLimbReach(body, dragTarget);
 
           if (closestHold) {
-              const holdRadius = closestHold.type === 'volume' ? 5 : closestHold.type === 'jug' ? 3 : 2;
+              const holdRadius = getHoldSnapRadius(closestHold);
               
               const dx = p.x - closestHold.x;
               const dy = p.y - closestHold.y;
@@ -293,13 +536,23 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
 
               const targetPoint = { x: finalX, y: finalY };
 
-              if (isReachable(origin, targetPoint, maxLen * 1.2)) {
-                  onPlaceLimb({ holdId: closestHold.id, x: targetPoint.x, y: targetPoint.y }, dragTarget);
+              const refusal = getHoldRejection(climberState.limbs, dragTarget, closestHold);
+
+              if (refusal) {
+                  // Hold is full: the limb goes back where it was
+                  setRejection({ x: closestHold.x, y: closestHold.y, reason: refusal });
+              } else if (isReachable(origin, targetPoint, maxLen * 1.2)) {
+                  const placed = { holdId: closestHold.id, x: targetPoint.x, y: targetPoint.y };
+                  onPlaceLimb(dragTarget.includes('Foot') ? withEngagement(placed, getDropEngagement(e)) : placed, dragTarget);
               } else {
                    onPlaceLimb(null, dragTarget);
               }
           } else {
-              if (dragTarget.includes('Foot') && isReachable(origin, {x: p.x, y: p.y}, maxLen)) {
+              // Hands palm down on the lip of a top-out wall
+              const lip = dragTarget.includes('Hand') ? getLipPlacement(level, p) : null;
+              if (lip && isReachable(origin, lip, maxLen * 1.2)) {
+                  onPlaceLimb(lip, dragTarget);
+              } else if (dragTarget.includes('Foot') && isReachable(origin, {x: p.x, y: p.y}, maxLen)) {
                   onPlaceLimb({x: p.x, y: p.y}, dragTarget);
               } else {
                   onPlaceLimb(null, dragTarget);
@@ -317,6 +570,7 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
       // Use hold-specific color or fallback to type default
       const color = hold.color || HOLD_COLORS[hold.type];
       const size = hold.type === 'volume' ? 8 : hold.type === 'jug' ? 4 : 2.5;
+      const attrs = getHoldAttributes(hold);
       
       if (hold.type === 'volume') {
           const p1 = { x: 0, y: -7 }; 
@@ -325,7 +579,7 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
           const apex = { x: 0, y: 1 };
 
           return (
-             <g filter="url(#holdShadow)">
+             <g filter="url(#holdShadow)" transform={`scale(${attrs.size})`}>
                  <polygon points={`${p3.x},${p3.y} ${p1.x},${p1.y} ${apex.x},${apex.y}`} fill={color} opacity="0.8" stroke="rgba(0,0,0,0.2)" strokeWidth="0.5" />
                  <polygon points={`${p2.x},${p2.y} ${p1.x},${p1.y} ${apex.x},${apex.y}`} fill={color} opacity="0.6" stroke="rgba(0,0,0,0.2)" strokeWidth="0.5" />
                  <polygon points={`${p3.x},${p3.y} ${p2.x},${p2.y} ${apex.x},${apex.y}`} fill={color} opacity="1.0" stroke="rgba(0,0,0,0.2)" strokeWidth="0.5" />
@@ -333,9 +587,13 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
           );
       }
 
+      // Crimps are drawn as thick as their edge is deep
+      const edgeHeight = Math.max(1, Math.min(5, 3 * attrs.edgeDepthMm / 12));
+      const top = hold.type === 'crimp' ? -edgeHeight / 2 : hold.type === 'jug' ? -2 : hold.type === 'sloper' || hold.type === 'pocket' ? -3 : -4;
+
       return (
-          <g filter="url(#holdShadow)">
-            {hold.type === 'crimp' && <rect x="-3" y="-1.5" width="6" height="3" fill={color} rx="0.5" />}
+          <g filter="url(#holdShadow)" transform={`scale(${attrs.size})`}>
+            {hold.type === 'crimp' && <rect x="-3" y={-edgeHeight / 2} width="6" height={edgeHeight} fill={color} rx="0.5" />}
             {hold.type === 'jug' && <path d="M -3 0 Q 0 -4 3 0 Q 0 3 -3 0" fill={color} stroke="rgba(0,0,0,0.2)" strokeWidth="0.5"/>}
             {hold.type === 'sloper' && <ellipse rx="5" ry="3" fill={color} />}
             {hold.type === 'pocket' && (
@@ -347,16 +605,32 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
             {(hold.type === 'start' || hold.type === 'finish') && (
                  <rect x="-4" y="-4" width="8" height="8" fill={color} rx="2" stroke="white" strokeWidth="1"/>
             )}
+            {/* Lip: a dark shadow line for incut edges, a pale rounded one for sloping tops */}
+            {Math.abs(attrs.incutDeg) >= 10 && (
+                <path
+                    d={`M -2.5 ${top + 0.3} Q 0 ${top + (attrs.incutDeg > 0 ? 0.9 : -0.4)} 2.5 ${top + 0.3}`}
+                    fill="none"
+                    stroke={attrs.incutDeg > 0 ? 'rgba(0,0,0,0.6)' : 'rgba(255,255,255,0.5)'}
+                    strokeWidth="0.6"
+                    strokeLinecap="round"
+                    opacity={Math.min(1, Math.abs(attrs.incutDeg) / 45)}
+                />
+            )}
             <circle cx="-1" cy="-1" r={size/3} fill="white" opacity="0.2" filter="url(#blur)" />
           </g>
       );
   };
   
-  const currentAngle = level.angle || 0;
+  const wallProfile = getWallProfile(level);
+  const currentAngle = getWallAngleAt(level, climberState.centerOfMass.y);
+
+  const dynoPreview = dynoCharge !== null
+      ? predictDynoArc(climberState.centerOfMass, getDynoLaunchVelocity(climberState, dynoCharge, getDynoAim()))
+      : null;
 
   return (
     <div className="relative w-full h-full rounded-xl overflow-hidden shadow-2xl border border-stone-600 bg-slate-800 group">
-      <AngleIndicator angle={currentAngle} />
+      <AngleIndicator profile={wallProfile} height={wallHeight} climberY={climberState.centerOfMass.y} />
 
       {/* Background with Perspective Effect */}
       <div 
@@ -419,43 +693,253 @@ const BoulderingWall: React.FC<BoulderingWallProps> = ({
           </filter>
         </defs>
 
-        {/* Crash Pad Floor */}
+        {/* Top of the boulder, over the lip */}
+        {hasLip(level) && (
+            <g className="pointer-events-none">
+                <rect x="-10" y={-TOP_OUT_ZONE - 10} width="120" height={TOP_OUT_ZONE + 10} fill="#0f172a" opacity="0.85" />
+                <rect x="-10" y="-1.2" width="120" height="1.2" fill="#78716c" />
+                <line x1="-10" y1="0" x2="110" y2="0" stroke="#d6d3d1" strokeWidth="0.4" />
+                <text x="50" y="-4" textAnchor="middle" fontSize="2.4" fill="#a8a29e" fontWeight="bold" letterSpacing="0.3em">TOP OUT</text>
+            </g>
+        )}
+
+        {/* Floor & Crash Pads */}
         <g>
-             {/* Main Mat */}
-            <rect x="-10" y={wallHeight} width="120" height="20" fill="#1c1917" />
-            <rect x="-10" y={wallHeight} width="120" height="4" fill="#d97706" /> {/* Orange Mat Top */}
-            <line x1="-10" y1={wallHeight} x2="110" y2={wallHeight} stroke="#78350f" strokeWidth="0.5" />
-            
-            {/* Texture/Logo maybe? */}
-            <text x="50" y={wallHeight + 8} textAnchor="middle" fontSize="3" fill="#44403c" fontWeight="bold" letterSpacing="0.2em">CRASH PAD</text>
+            <rect x="-10" y={wallHeight} width="120" height="20" fill="#292524" />
+            <line x1="-10" y1={wallHeight} x2="110" y2={wallHeight} stroke="#44403c" strokeWidth="0.5" />
+
+            {getCrashPads(level).map((pad, i) => (
+                <g key={i}>
+                    <rect x={pad.x} y={wallHeight - 1} width={pad.width} height="6" rx="0.8" fill="#1c1917" stroke="#78350f" strokeWidth="0.3" />
+                    <rect x={pad.x} y={wallHeight - 1} width={pad.width} height="2" rx="0.8" fill="#d97706" /> {/* Orange Mat Top */}
+                    <text x={pad.x + pad.width / 2} y={wallHeight + 4} textAnchor="middle" fontSize="2" fill="#57534e" fontWeight="bold" letterSpacing="0.2em">CRASH PAD</text>
+                </g>
+            ))}
         </g>
 
-        {level.holds.map((hold) => (
+        {/* Section Breaks */}
+        {wallProfile.slice(1).map(section => (
+            <g key={`section-${section.top}`} className="pointer-events-none">
+                <line x1="0" y1={section.top} x2="100" y2={section.top} stroke="rgba(251,191,36,0.35)" strokeWidth="0.3" strokeDasharray="2,1.5" />
+                <text x="1" y={section.top + 2.5} fontSize="2" fill="rgba(251,191,36,0.6)" fontFamily="monospace">{section.angle}°</text>
+            </g>
+        ))}
+
+        {level.holds.map(getPreviewHold).map((hold) => (
           <g
             key={hold.id}
             transform={`translate(${hold.x}, ${hold.y}) rotate(${hold.rotation})`}
-            onClick={(e) => isEditorMode ? onHoldClick(hold) : null}
-            className={`${isEditorMode ? 'cursor-pointer' : ''}`}
+            onMouseDown={(e) => handleHoldMouseDown(hold, e)}
+            className={`${isEditorMode ? (editorDrag?.kind === 'move' ? 'cursor-grabbing' : 'cursor-grab') : ''}`}
           >
-            <g className="transition-transform duration-200 hover:scale-110">
+            <g className="transition-transform duration-200 hover:scale-110" opacity={isOnProblem(problem, hold) ? 1 : 0.2}>
                 <HoldShape hold={hold} />
             </g>
           </g>
         ))}
 
+        {/* Problem start and finish markers, and any off-route holds the climber used */}
+        {problem && level.holds.filter(h => isStartHold(problem, h) || isFinishHold(problem, h)).map(hold => (
+            <text
+                key={`marker-${hold.id}`}
+                x={hold.x + HOLD_RADIUS[hold.type] * getHoldAttributes(hold).size + 1}
+                y={hold.y - 1.5}
+                fontSize="2.4"
+                fontWeight="bold"
+                fill={isFinishHold(problem, hold) ? '#f9a8d4' : '#d8b4fe'}
+                className="pointer-events-none"
+            >
+                {isFinishHold(problem, hold) ? 'F' : 'S'}
+            </text>
+        ))}
+        {level.holds.filter(h => climberState.offRouteHoldIds?.includes(h.id)).map(hold => (
+            <circle
+                key={`offroute-${hold.id}`}
+                cx={hold.x}
+                cy={hold.y}
+                r={HOLD_RADIUS[hold.type] * getHoldAttributes(hold).size + 1.5}
+                fill="none"
+                stroke="#ef4444"
+                strokeWidth="0.6"
+                className="pointer-events-none"
+            />
+        ))}
+
+        {/* Editor Selection */}
+        {isEditorMode && level.holds.filter(h => selectedHoldIds.includes(h.id)).map(getPreviewHold).map(hold => (
+            <circle
+                key={`selected-${hold.id}`}
+                cx={hold.x}
+                cy={hold.y}
+                r={HOLD_RADIUS[hold.type] * getHoldAttributes(hold).size + 1.5}
+                fill="none"
+                stroke="#38bdf8"
+                strokeWidth="0.4"
+                strokeDasharray="1,0.8"
+                className="pointer-events-none"
+            />
+        ))}
+
+        {isEditorMode && selectedHoldIds.length === 1 && level.holds.filter(h => h.id === selectedHoldIds[0]).map(getPreviewHold).map(hold => {
+            const rad = (hold.rotation - 90) * Math.PI / 180;
+            const dist = getRotateHandleDistance(hold);
+            const handle = { x: hold.x + Math.cos(rad) * dist, y: hold.y + Math.sin(rad) * dist };
+            return (
+                <g key={`rotate-${hold.id}`}>
+                    <line x1={hold.x} y1={hold.y} x2={handle.x} y2={handle.y} stroke="#38bdf8" strokeWidth="0.3" className="pointer-events-none" />
+                    <circle
+                        cx={handle.x}
+                        cy={handle.y}
+                        r="1.2"
+                        fill="#0c4a6e"
+                        stroke="#38bdf8"
+                        strokeWidth="0.4"
+                        className="cursor-alias"
+                        onMouseDown={(e) => handleRotateMouseDown(hold, e)}
+                    >
+                        <title>Drag to rotate (Shift snaps to 15°)</title>
+                    </circle>
+                    {editorDrag?.kind === 'rotate' && (
+                        <text x={handle.x} y={handle.y - 2} textAnchor="middle" fontSize="2.2" fill="#7dd3fc" fontFamily="monospace" className="pointer-events-none">{hold.rotation}°</text>
+                    )}
+                </g>
+            );
+        })}
+
+        {editorDrag?.kind === 'box' && (() => {
+            const box = getBoxBounds(editorDrag.start, editorDrag.current);
+            return <rect {...box} fill="rgba(56,189,248,0.1)" stroke="#38bdf8" strokeWidth="0.3" strokeDasharray="1,0.8" className="pointer-events-none" />;
+        })()}
+
+        {level.holds.filter(h => highlightedHoldIds.includes(h.id)).map(hold => (
+            <circle
+                key={`highlight-${hold.id}`}
+                cx={hold.x}
+                cy={hold.y}
+                r={HOLD_RADIUS[hold.type] * getHoldAttributes(hold).size + 2}
+                fill="none"
+                stroke="#f87171"
+                strokeWidth="0.8"
+                strokeDasharray="1.5,1"
+                className="animate-pulse pointer-events-none"
+            />
+        ))}
+
+        {/* Bolts & Rope */}
+        {(level.bolts || []).map(bolt => {
+            const clipped = climberState.clips?.includes(bolt.id);
+            const clippable = !isEditorMode && !readOnly && !!onClip && protection !== 'freeSolo' && protection !== 'topRope' && canClip(climberState, bolt, body);
+            return (
+                <g
+                    key={bolt.id}
+                    transform={`translate(${bolt.x}, ${bolt.y})`}
+                    onClick={() => clippable && onClip?.(bolt.id)}
+                    className={clippable ? 'cursor-pointer' : 'pointer-events-none'}
+                >
+                    {clippable && <circle r="2.5" fill="rgba(34,211,238,0.15)" stroke="#22d3ee" strokeWidth="0.3" className="animate-pulse" />}
+                    <circle r="0.9" fill="#a8a29e" stroke="#57534e" strokeWidth="0.3" />
+                    {clipped && (
+                        <>
+                            <line x1="0" y1="0.6" x2="0" y2="2.6" stroke="#f472b6" strokeWidth="0.6" />
+                            <ellipse cx="0" cy="3.2" rx="0.5" ry="0.8" fill="none" stroke="#d6d3d1" strokeWidth="0.25" />
+                        </>
+                    )}
+                </g>
+            );
+        })}
+
+        {!isEditorMode && ropePath && (
+            <polyline
+                points={ropePath.map(p => `${p.x},${p.y}`).join(' ')}
+                fill="none"
+                stroke="#22d3ee"
+                strokeWidth="0.4"
+                strokeLinejoin="round"
+                opacity="0.85"
+                className="pointer-events-none"
+            />
+        )}
+
+        {!isEditorMode && ghostState && (
+            <ClimberAvatar
+                state={ghostState}
+                holds={level.holds}
+                realismMode={realismMode}
+                ghost
+                body={ghostBody}
+            />
+        )}
+
         {!isEditorMode && (
             <ClimberAvatar 
                 state={climberState} 
                 holds={level.holds} 
                 onStartDragLimb={handleLimbDragStart}
                 onStartDragBody={handleBodyDragStart}
+                onFootContextMenu={handleFootContextMenu}
                 draggingLimb={typeof dragTarget === 'string' && dragTarget !== 'COM' ? dragTarget : null}
                 dragPos={draggedLimbPos}
                 realismMode={realismMode}
+                body={body}
             />
         )}
 
+        {dynoPreview && dynoCharge !== null && (
+            <g className="pointer-events-none">
+                <polyline
+                    points={dynoPreview.points.map(p => `${p.x},${p.y}`).join(' ')}
+                    fill="none"
+                    stroke="#fbbf24"
+                    strokeWidth="0.6"
+                    strokeDasharray="1.5,1"
+                    opacity="0.8"
+                />
+                {/* Deadpoint: where the hands can reach at the top of the arc */}
+                <circle cx={dynoPreview.apex.x} cy={dynoPreview.apex.y} r="1.2" fill="#fbbf24" />
+                <circle
+                    cx={dynoPreview.apex.x}
+                    cy={dynoPreview.apex.y - body.torsoHeight * 0.85}
+                    r={body.maxReach.hand}
+                    fill="rgba(251,191,36,0.06)"
+                    stroke="#fbbf24"
+                    strokeWidth="0.3"
+                    strokeDasharray="1,1"
+                />
+                {/* Charge meter */}
+                <rect x={climberState.centerOfMass.x - 5} y={climberState.centerOfMass.y + 6} width="10" height="1.2" rx="0.6" fill="rgba(0,0,0,0.5)" />
+                <rect x={climberState.centerOfMass.x - 5} y={climberState.centerOfMass.y + 6} width={10 * dynoCharge} height="1.2" rx="0.6" fill={dynoCharge >= 1 ? '#ef4444' : '#fbbf24'} />
+            </g>
+        )}
+
+        {rejection && (
+            <g transform={`translate(${rejection.x}, ${rejection.y})`} className="pointer-events-none animate-pulse">
+                <circle r="4" fill="rgba(239,68,68,0.25)" stroke="#ef4444" strokeWidth="0.6" />
+                <path d="M -2 -2 L 2 2 M 2 -2 L -2 2" stroke="#ef4444" strokeWidth="0.8" strokeLinecap="round" />
+                <text y="-5.5" textAnchor="middle" fontSize="2.6" fontWeight="bold" fill="#fca5a5">{rejection.reason}</text>
+            </g>
+        )}
+
       </svg>
+
+      {footMenu && (
+          <div
+            className="absolute z-30 bg-stone-900/95 border border-stone-600 rounded shadow-xl py-1 text-xs min-w-[110px]"
+            style={{ left: `${footMenu.x}%`, top: `${((footMenu.y - camY) / viewHeight) * 100}%`, transform: 'translate(8px, -50%)' }}
+            onContextMenu={(e) => e.preventDefault()}
+          >
+              {FOOT_MODES.map(({ mode, label, hint }) => (
+                  <button
+                    key={mode}
+                    onClick={() => handleSelectFootMode(mode)}
+                    className={`w-full flex justify-between gap-3 px-3 py-1 text-left hover:bg-stone-700
+                        ${getFootEngagement(climberState.limbs[footMenu.limb]) === mode ? 'text-yellow-400 font-bold' : 'text-gray-300'}`}
+                  >
+                      <span>{label}</span>
+                      {hint && <span className="text-gray-500">{hint}</span>}
+                  </button>
+              ))}
+          </div>
+      )}
       
     </div>
   );
@@ -1,8 +1,8 @@
 
 import React from 'react';
-import { ClimberState, Hold, Limb, Point } from '../types';
-import { solveIK } from '../utils/gameUtils';
-import { ANATOMY, MAX_REACH } from '../constants';
+import { ClimberBody, ClimberState, FootEngagement, Hold, Limb, Point } from '../types';
+import { solveIK, getFootEngagement } from '../utils/gameUtils';
+import { DEFAULT_BODY } from '../utils/body';
 
 const CONFIG = {
   colors: {
@@ -11,6 +11,8 @@ const CONFIG = {
     leftLimb: '#38bdf8', 
     rightLimb: '#38bdf8', 
     foot: '#fbbf24',     
+    heelHook: '#f97316',
+    toeHook: '#c084fc',
     body: '#ffffff',     
   },
   sizes: {
@@ -32,9 +34,11 @@ interface ControlHandleProps {
   color?: string;
   zIndex?: number;
   realismMode: boolean;
+  engagement?: FootEngagement;
+  onContextMenu?: (e: React.MouseEvent) => void;
 }
 
-const ControlHandle: React.FC<ControlHandleProps> = ({ x, y, type, rotation = 0, isDragging, onMouseDown, color, zIndex = 0, realismMode }) => {
+const ControlHandle: React.FC<ControlHandleProps> = ({ x, y, type, rotation = 0, isDragging, onMouseDown, color, zIndex = 0, realismMode, engagement = 'stand', onContextMenu }) => {
   const hitboxR = type === 'body' ? CONFIG.sizes.bodyHitbox : CONFIG.sizes.limbHitbox;
   const visualR = type === 'body' ? CONFIG.sizes.bodyDot : CONFIG.sizes.limbDot;
   const fillColor = color || CONFIG.colors.body;
@@ -49,8 +53,10 @@ const ControlHandle: React.FC<ControlHandleProps> = ({ x, y, type, rotation = 0,
       className={`cursor-grab active:cursor-grabbing group`}
       onMouseDown={(e) => {
         e.stopPropagation(); 
+        if (e.button === 2 && onContextMenu) return; // Right-click opens the menu instead of dragging
         onMouseDown(e);
       }}
+      onContextMenu={onContextMenu}
       role="button"
       style={{ zIndex }}
     >
@@ -95,16 +101,37 @@ const ControlHandle: React.FC<ControlHandleProps> = ({ x, y, type, rotation = 0,
                      </g>
                 )}
 
-                {type === 'foot' && (
+                {type === 'foot' && engagement === 'stand' && (
                     <g transform="translate(0,0)">
                         <ellipse cx="0" cy="1" rx="2" ry="3.5" fill={fillColor} fillOpacity={opacity} stroke="white" strokeWidth="0.5" />
                         <circle cx="0" cy="-2" r="1.5" fill={CONFIG.colors.joint} />
                     </g>
                 )}
+
+                {/* Heel hook: sole turned up, heel cupped over the hold */}
+                {type === 'foot' && engagement === 'heel' && (
+                    <g transform="rotate(180)">
+                        <ellipse cx="0" cy="1" rx="2" ry="3.5" fill={fillColor} fillOpacity={opacity} stroke="white" strokeWidth="0.5" />
+                        <path d="M -2 -1.5 Q 0 -4.5 2 -1.5" fill="none" stroke="white" strokeWidth="0.8" strokeLinecap="round" />
+                        <circle cx="0" cy="-2" r="1.5" fill={CONFIG.colors.joint} />
+                    </g>
+                )}
+
+                {/* Toe hook: toes flexed up and pulling back against the hold */}
+                {type === 'foot' && engagement === 'toe' && (
+                    <g transform="translate(0,0)">
+                        <ellipse cx="0" cy="1" rx="2" ry="3.5" fill={fillColor} fillOpacity={opacity} stroke="white" strokeWidth="0.5" />
+                        <path d="M -1.8 3.5 Q 0 6.5 1.8 3.5" fill="none" stroke="white" strokeWidth="0.8" strokeLinecap="round" />
+                        <circle cx="0" cy="-2" r="1.5" fill={CONFIG.colors.joint} />
+                    </g>
+                )}
             </>
         )}
         
         {type === 'body' && <circle r={0.8} fill={CONFIG.colors.joint} opacity={0.8} />}
+        {!realismMode && type === 'foot' && engagement !== 'stand' && (
+            <text y="0.9" textAnchor="middle" fontSize="2.4" fontWeight="bold" fill="white" pointerEvents="none">{engagement === 'heel' ? 'H' : 'T'}</text>
+        )}
       </g>
     </g>
   );
@@ -115,9 +142,12 @@ interface ClimberAvatarProps {
   holds: Hold[];
   onStartDragLimb?: (limb: Limb) => void;
   onStartDragBody?: (e: React.MouseEvent) => void;
+  onFootContextMenu?: (limb: Limb, e: React.MouseEvent) => void; // Right-click an attached foot to switch hooks
   draggingLimb?: Limb | null;
   dragPos?: Point | null;
   realismMode: boolean;
+  ghost?: boolean; // Translucent, non-interactive replay of a previous send
+  body?: ClimberBody;
 }
 
 const ClimberAvatar: React.FC<ClimberAvatarProps> = ({ 
@@ -125,9 +155,12 @@ const ClimberAvatar: React.FC<ClimberAvatarProps> = ({
     holds, 
     onStartDragLimb, 
     onStartDragBody,
+    onFootContextMenu,
     draggingLimb, 
     dragPos,
-    realismMode
+    realismMode,
+    ghost = false,
+    body = DEFAULT_BODY
 }) => {
   const com = state.centerOfMass;
 
@@ -145,10 +178,10 @@ const ClimberAvatar: React.FC<ClimberAvatarProps> = ({
 
     // 3. Falling / Hanging (Default)
     const defaults: Record<Limb, Point> = {
-        leftHand: { x: com.x - ANATOMY.shoulderWidth, y: com.y - ANATOMY.torsoHeight * 0.8 },
-        rightHand: { x: com.x + ANATOMY.shoulderWidth, y: com.y - ANATOMY.torsoHeight * 0.8 },
-        leftFoot: { x: com.x - ANATOMY.hipWidth, y: com.y + ANATOMY.legUpper + ANATOMY.legLower * 0.5 },
-        rightFoot: { x: com.x + ANATOMY.hipWidth, y: com.y + ANATOMY.legUpper + ANATOMY.legLower * 0.5 },
+        leftHand: { x: com.x - body.shoulderWidth, y: com.y - body.torsoHeight * 0.8 },
+        rightHand: { x: com.x + body.shoulderWidth, y: com.y - body.torsoHeight * 0.8 },
+        leftFoot: { x: com.x - body.hipWidth, y: com.y + body.legUpper + body.legLower * 0.5 },
+        rightFoot: { x: com.x + body.hipWidth, y: com.y + body.legUpper + body.legLower * 0.5 },
     };
     
     const target = defaults[limb];
@@ -172,25 +205,25 @@ const ClimberAvatar: React.FC<ClimberAvatarProps> = ({
   };
 
   // Body Anchors
-  const neckBase = { x: com.x, y: com.y - ANATOMY.torsoHeight * 0.85 };
+  const neckBase = { x: com.x, y: com.y - body.torsoHeight * 0.85 };
   const hipCenter = { x: com.x, y: com.y + 1.5 };
   
-  const shoulderL = { x: neckBase.x - ANATOMY.shoulderWidth / 2, y: neckBase.y };
-  const shoulderR = { x: neckBase.x + ANATOMY.shoulderWidth / 2, y: neckBase.y };
-  const hipL = { x: hipCenter.x - ANATOMY.hipWidth / 2, y: hipCenter.y };
-  const hipR = { x: hipCenter.x + ANATOMY.hipWidth / 2, y: hipCenter.y };
+  const shoulderL = { x: neckBase.x - body.shoulderWidth / 2, y: neckBase.y };
+  const shoulderR = { x: neckBase.x + body.shoulderWidth / 2, y: neckBase.y };
+  const hipL = { x: hipCenter.x - body.hipWidth / 2, y: hipCenter.y };
+  const hipR = { x: hipCenter.x + body.hipWidth / 2, y: hipCenter.y };
 
   // Targets
-  const lhTarget = resolveTarget('leftHand', shoulderL, MAX_REACH.hand);
-  const rhTarget = resolveTarget('rightHand', shoulderR, MAX_REACH.hand);
-  const lfTarget = resolveTarget('leftFoot', hipL, MAX_REACH.foot);
-  const rfTarget = resolveTarget('rightFoot', hipR, MAX_REACH.foot);
+  const lhTarget = resolveTarget('leftHand', shoulderL, body.maxReach.hand);
+  const rhTarget = resolveTarget('rightHand', shoulderR, body.maxReach.hand);
+  const lfTarget = resolveTarget('leftFoot', hipL, body.maxReach.foot);
+  const rfTarget = resolveTarget('rightFoot', hipR, body.maxReach.foot);
 
   // IK Joints
-  const elbowL = solveIK(shoulderL, lhTarget, ANATOMY.armUpper, ANATOMY.armLower, false);
-  const elbowR = solveIK(shoulderR, rhTarget, ANATOMY.armUpper, ANATOMY.armLower, true);
-  const kneeL = solveIK(hipL, lfTarget, ANATOMY.legUpper, ANATOMY.legLower, true);
-  const kneeR = solveIK(hipR, rfTarget, ANATOMY.legUpper, ANATOMY.legLower, false);
+  const elbowL = solveIK(shoulderL, lhTarget, body.armUpper, body.armLower, false);
+  const elbowR = solveIK(shoulderR, rhTarget, body.armUpper, body.armLower, true);
+  const kneeL = solveIK(hipL, lfTarget, body.legUpper, body.legLower, true);
+  const kneeR = solveIK(hipR, rfTarget, body.legUpper, body.legLower, false);
 
   // Calculate rotations for wrists/ankles
   // Hands align with forearm vector. -90 offset because 0deg is right, but hands hang down visually.
@@ -201,6 +234,13 @@ const ClimberAvatar: React.FC<ClimberAvatarProps> = ({
   const lfRot = getLimbAngle(kneeL, lfTarget, 90);
   const rfRot = getLimbAngle(kneeR, rfTarget, 90);
 
+  // Hooks show only while the foot sits on its hold
+  const footColor = (limb: Limb) => {
+      if (draggingLimb === limb) return CONFIG.colors.foot;
+      const engagement = getFootEngagement(state.limbs[limb]);
+      return engagement === 'heel' ? CONFIG.colors.heelHook : engagement === 'toe' ? CONFIG.colors.toeHook : CONFIG.colors.foot;
+  };
+
   const Bone = ({ p1, p2, w = 2 }: { p1: Point, p2: Point, w?: number }) => (
     <line x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke={CONFIG.colors.skeleton} strokeWidth={w} strokeLinecap="round" opacity="0.4" />
   );
@@ -215,7 +255,7 @@ const ClimberAvatar: React.FC<ClimberAvatarProps> = ({
   };
 
   return (
-    <g>
+    <g opacity={ghost ? 0.3 : undefined} pointerEvents={ghost ? 'none' : undefined}>
       {/* Skeleton (Torso Area) - Reduced Opacity to see holds through body */}
       <path 
         d={`M ${shoulderL.x} ${shoulderL.y} L ${shoulderR.x} ${shoulderR.y} L ${hipR.x} ${hipR.y} L ${hipL.x} ${hipL.y} Z`} 
@@ -245,7 +285,7 @@ const ClimberAvatar: React.FC<ClimberAvatarProps> = ({
       <Joint p={kneeL} />
       <Joint p={kneeR} />
       
-      <circle cx={neckBase.x} cy={neckBase.y - 2.5} r={2} fill={CONFIG.colors.skeleton} opacity="0.3" />
+      <circle cx={neckBase.x} cy={neckBase.y - 2.5} r={body.headRadius - 0.2} fill={CONFIG.colors.skeleton} opacity="0.3" />
 
       {/* Interactive Controls - No overlap displacement, raw coordinates */}
       <ControlHandle 
@@ -259,8 +299,8 @@ const ClimberAvatar: React.FC<ClimberAvatarProps> = ({
       
       {/* Sort logic for Z-index: drag active goes last (top) */}
       {[
-          { id: 'leftFoot', x: lfTarget.x, y: lfTarget.y, type: 'foot', c: CONFIG.colors.foot, r: lfRot },
-          { id: 'rightFoot', x: rfTarget.x, y: rfTarget.y, type: 'foot', c: CONFIG.colors.foot, r: rfRot },
+          { id: 'leftFoot', x: lfTarget.x, y: lfTarget.y, type: 'foot', c: footColor('leftFoot'), r: lfRot },
+          { id: 'rightFoot', x: rfTarget.x, y: rfTarget.y, type: 'foot', c: footColor('rightFoot'), r: rfRot },
           { id: 'leftHand', x: lhTarget.x, y: lhTarget.y, type: 'hand', c: CONFIG.colors.leftLimb, r: lhRot },
           { id: 'rightHand', x: rhTarget.x, y: rhTarget.y, type: 'hand', c: CONFIG.colors.rightLimb, r: rhRot },
       ].sort((a, b) => (draggingLimb === a.id ? 1 : draggingLimb === b.id ? -1 : 0)).map(l => (
@@ -273,6 +313,8 @@ const ClimberAvatar: React.FC<ClimberAvatarProps> = ({
             isDragging={draggingLimb === l.id} 
             onMouseDown={() => onStartDragLimb?.(l.id as Limb)} 
             realismMode={realismMode}
+            engagement={draggingLimb === l.id ? 'stand' : getFootEngagement(state.limbs[l.id as Limb])}
+            onContextMenu={l.type === 'foot' && onFootContextMenu ? (e) => onFootContextMenu(l.id as Limb, e) : undefined}
           />
       ))}
     </g>
@@ -0,0 +1,106 @@
+import React from 'react';
+import { ClimberProfile } from '../types';
+import { DEFAULT_BODY, getClimberBody } from '../utils/body';
+
+interface ClimberProfilePanelProps {
+  profiles: ClimberProfile[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onUpdate: (profile: ClimberProfile) => void;
+  onCreate: () => void;
+  onDelete: (id: string) => void;
+}
+
+interface SliderField {
+  key: 'heightCm' | 'apeIndexCm' | 'legLengthCm' | 'weightKg';
+  label: string;
+  min: number;
+  max: number;
+  unit: string;
+}
+
+const FIELDS: SliderField[] = [
+  { key: 'heightCm', label: 'Height', min: 140, max: 210, unit: 'cm' },
+  { key: 'apeIndexCm', label: 'Ape Index', min: -10, max: 15, unit: 'cm' },
+  { key: 'legLengthCm', label: 'Leg Length', min: 60, max: 105, unit: 'cm' },
+  { key: 'weightKg', label: 'Weight', min: 40, max: 110, unit: 'kg' },
+];
+
+const formatValue = (field: SliderField, value: number) =>
+  `${field.key === 'apeIndexCm' && value > 0 ? '+' : ''}${value}${field.unit}`;
+
+const ClimberProfilePanel: React.FC<ClimberProfilePanelProps> = ({
+    profiles,
+    selectedId,
+    onSelect,
+    onUpdate,
+    onCreate,
+    onDelete
+}) => {
+  const profile = profiles.find(p => p.id === selectedId) || profiles[0];
+  const body = getClimberBody(profile);
+  const reachPct = Math.round((body.maxReach.hand / DEFAULT_BODY.maxReach.hand) * 100);
+
+  return (
+    <div className="bg-stone-800 p-4 rounded-xl border border-stone-700 shadow-lg">
+        <div className="flex justify-between items-center mb-2">
+            <h3 className="text-sm font-bold uppercase tracking-wider text-gray-300">Climber</h3>
+            <div className="flex gap-1">
+                <button onClick={onCreate} className="px-2 py-0.5 text-xs rounded bg-stone-700 hover:bg-stone-600 text-white" title="New profile from this one">+</button>
+                <button
+                    onClick={() => onDelete(profile.id)}
+                    disabled={profiles.length <= 1}
+                    className="px-2 py-0.5 text-xs rounded bg-stone-700 hover:bg-red-800 disabled:opacity-40 text-white"
+                    title="Delete profile"
+                >
+                    ✕
+                </button>
+            </div>
+        </div>
+
+        <div className="flex gap-2 mb-3">
+            <select
+                value={profile.id}
+                onChange={(e) => onSelect(e.target.value)}
+                className="flex-1 bg-stone-900 text-white text-xs px-2 py-1 rounded border border-stone-600 outline-none focus:border-yellow-500"
+            >
+                {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <input
+                type="text"
+                value={profile.name}
+                onChange={(e) => onUpdate({ ...profile, name: e.target.value })}
+                className="w-24 bg-stone-900 text-white text-xs px-2 py-1 rounded border border-stone-600 outline-none focus:border-yellow-500"
+                title="Rename"
+            />
+        </div>
+
+        <div className="flex flex-col gap-2">
+            {FIELDS.map(field => (
+                <div key={field.key}>
+                    <div className="flex justify-between text-[10px] text-gray-400">
+                        <span>{field.label}</span>
+                        <span className="font-mono text-gray-300">{formatValue(field, profile[field.key])}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={field.min}
+                        max={field.max}
+                        step={1}
+                        value={profile[field.key]}
+                        onChange={(e) => onUpdate({ ...profile, [field.key]: Number(e.target.value) })}
+                        className="w-full h-1.5 bg-stone-600 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                    />
+                </div>
+            ))}
+        </div>
+
+        <div className="flex justify-between text-[10px] text-gray-500 mt-2">
+            <span>Reach <span className={`font-mono ${reachPct >= 100 ? 'text-green-400' : 'text-orange-400'}`}>{reachPct}%</span></span>
+            <span>Wingspan <span className="font-mono text-gray-300">{profile.heightCm + profile.apeIndexCm}cm</span></span>
+        </div>
+    </div>
+  );
+};
+
+export default ClimberProfilePanel;
@@ -1,41 +1,134 @@
 
 import React, { useState, useRef } from 'react';
-import { HoldType, Hold } from '../types';
-import { HOLD_COLORS } from '../constants';
+import { HoldType, Hold, BetaResult, Limb, GradeEstimate, LintIssue, HoldAttributes, WallSection, Problem, StartRule, FinishRule } from '../types';
+import { HOLD_COLORS, HOLD_DEFAULT_ATTRIBUTES } from '../constants';
+import { START_RULE_LABELS, FINISH_RULE_LABELS } from '../utils/rules';
 
 interface EditorControlsProps {
   currentTool: HoldType;
   setCurrentTool: (t: HoldType) => void;
   currentColor: string;
   setCurrentColor: (c: string) => void;
+  holdAttributes: HoldAttributes;
+  setHoldAttributes: (a: HoldAttributes) => void;
   onGenerateLevel: (desc: string) => void;
   onUploadImage: (file: File) => void;
   isGenerating: boolean;
   onClear: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  undoLabel: string | null; // Edit that undo would revert, null when there's nothing to undo
+  redoLabel: string | null;
+  levelName: string;
+  isSaved: boolean; // The open level is in My Routes
+  hasUnsavedChanges: boolean;
   onSave: () => void;
+  onSaveAs: () => void;
+  onRename: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImportFile: (file: File) => void;
+  onCopyShareLink: () => Promise<boolean>; // false when the link couldn't go to the clipboard
   angle: number;
   onUpdateAngle: (angle: number) => void;
+  sections: WallSection[];
+  onUpdateSections: (sections: WallSection[]) => void;
+  wallHeight: number;
+  onCheckRoute: () => void;
+  betaResult: BetaResult | null;
+  isSolving: boolean;
+  realismMode: boolean;
+  difficulty: string;
+  gradeEstimate: GradeEstimate;
+  onApplyGrade: () => void;
+  lintIssues: LintIssue[];
+  selectedIssueId: string | null;
+  onSelectIssue: (issue: LintIssue | null) => void;
+  selectedHolds: Hold[];
+  onUpdateSelectedHolds: (changes: Partial<Pick<Hold, 'type' | 'color' | 'rotation'>>) => void;
+  onDeleteSelectedHolds: () => void;
+  problems: Problem[];
+  onUpdateProblems: (problems: Problem[]) => void;
+  onAddProblem: () => void; // From the selected holds
+  startRule: StartRule;
+  finishRule: FinishRule;
+  onUpdateRules: (rules: { startRule?: StartRule; finishRule?: FinishRule }) => void;
 }
 
+const LIMB_LABELS: Record<Limb, string> = {
+  leftHand: 'L hand',
+  rightHand: 'R hand',
+  leftFoot: 'L foot',
+  rightFoot: 'R foot',
+};
+
 const EditorControls: React.FC<EditorControlsProps> = ({ 
     currentTool, 
     setCurrentTool, 
     currentColor,
     setCurrentColor,
+    holdAttributes,
+    setHoldAttributes,
     onGenerateLevel,
     onUploadImage,
     isGenerating,
     onClear,
+    onUndo,
+    onRedo,
+    undoLabel,
+    redoLabel,
+    levelName,
+    isSaved,
+    hasUnsavedChanges,
     onSave,
+    onSaveAs,
+    onRename,
+    onDuplicate,
+    onDelete,
+    onExport,
+    onImportFile,
+    onCopyShareLink,
     angle,
-    onUpdateAngle
+    onUpdateAngle,
+    sections,
+    onUpdateSections,
+    wallHeight,
+    onCheckRoute,
+    betaResult,
+    isSolving,
+    realismMode,
+    difficulty,
+    gradeEstimate,
+    onApplyGrade,
+    lintIssues,
+    selectedIssueId,
+    onSelectIssue,
+    selectedHolds,
+    onUpdateSelectedHolds,
+    onDeleteSelectedHolds,
+    problems,
+    onUpdateProblems,
+    onAddProblem,
+    startRule,
+    finishRule,
+    onUpdateRules
 }) => {
   const [prompt, setPrompt] = useState("");
   const [isOpen, setIsOpen] = useState(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const routeFileInputRef = useRef<HTMLInputElement>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
 
   const tools: HoldType[] = ['jug', 'crimp', 'sloper', 'pocket', 'volume', 'start', 'finish'];
 
+  const attributeFields: { key: keyof HoldAttributes; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+      { key: 'edgeDepthMm', label: 'Edge Depth', min: 4, max: 80, step: 1, format: v => `${v}mm` },
+      { key: 'size', label: 'Size', min: 0.5, max: 2, step: 0.1, format: v => `${Math.round(v * 100)}%` },
+      { key: 'incutDeg', label: 'Incut', min: -45, max: 45, step: 5, format: v => v > 0 ? `+${v}° incut` : v < 0 ? `${-v}° sloping` : 'flat' },
+  ];
+  const isDefaultShape = attributeFields.every(f => holdAttributes[f.key] === HOLD_DEFAULT_ATTRIBUTES[currentTool][f.key]);
+
   if (!isOpen) {
       return (
           <button 
@@ -53,17 +146,66 @@ const EditorControls: React.FC<EditorControlsProps> = ({
       return `${a}° Overhang`;
   };
 
+  const updateSection = (index: number, changes: Partial<WallSection>) => {
+      onUpdateSections(sections.map((section, i) => i === index ? { ...section, ...changes } : section));
+  };
+
+  const updateProblem = (id: string, changes: Partial<Problem>) => {
+      onUpdateProblems(problems.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
+
+  const selectedIds = selectedHolds.map(h => h.id);
+
+  // New sections go below the lowest one, or at the top of the wall
+  const handleAddSection = () => {
+      const lowest = sections.reduce((max, s) => Math.max(max, s.bottom), 0);
+      const top = lowest >= wallHeight ? 0 : lowest;
+      onUpdateSections([...sections, { top, bottom: Math.min(wallHeight, top + 25), angle: 30 }]);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files[0]) {
           onUploadImage(e.target.files[0]);
       }
   };
 
+  const handleCopyShareLink = async () => {
+      if (!(await onCopyShareLink())) return;
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const handleRouteFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      if (e.target.files && e.target.files[0]) {
+          onImportFile(e.target.files[0]);
+      }
+      // Picking the same file again should import it again
+      e.target.value = '';
+  };
+
   return (
     <div className="absolute top-4 right-4 w-72 bg-stone-900/95 backdrop-blur border border-stone-700 p-4 rounded-xl shadow-2xl flex flex-col gap-4 text-sm z-30 max-h-[90vh] overflow-y-auto">
       <div className="flex justify-between items-center">
           <h3 className="font-bold text-lg text-white">Level Editor</h3>
-          <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-white">✕</button>
+          <div className="flex items-center gap-1">
+              <button
+                onClick={onUndo}
+                disabled={!undoLabel}
+                className="px-2 py-0.5 rounded bg-stone-800 border border-stone-700 text-gray-300 hover:text-white disabled:opacity-30"
+                title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+              >
+                  ↶
+              </button>
+              <button
+                onClick={onRedo}
+                disabled={!redoLabel}
+                className="px-2 py-0.5 rounded bg-stone-800 border border-stone-700 text-gray-300 hover:text-white disabled:opacity-30"
+                title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              >
+                  ↷
+              </button>
+              <button onClick={() => setIsOpen(false)} className="ml-1 text-gray-400 hover:text-white">✕</button>
+          </div>
       </div>
 
       {/* Wall Settings */}
@@ -83,6 +225,109 @@ const EditorControls: React.FC<EditorControlsProps> = ({
             className="w-full h-2 bg-stone-600 rounded-lg appearance-none cursor-pointer accent-yellow-500"
          />
          <div className="text-center mt-1 text-yellow-400 font-bold">{getAngleLabel(angle)}</div>
+
+         {/* Sections override the base angle over a range of heights */}
+         <div className="flex justify-between items-center mt-3 mb-1">
+             <span className="text-xs text-gray-400">Sections</span>
+             <button onClick={handleAddSection} className="px-2 py-0.5 text-xs rounded bg-stone-700 hover:bg-stone-600 text-white">+ Add</button>
+         </div>
+         {sections.length === 0 && <div className="text-[10px] text-gray-500">One angle for the whole wall.</div>}
+         <div className="flex flex-col gap-2">
+             {sections.map((section, i) => (
+                 <div key={i} className="bg-stone-900/60 p-2 rounded border border-stone-700">
+                     <div className="flex items-center gap-1 text-[10px] text-gray-400">
+                         <span>y</span>
+                         <input
+                            type="number"
+                            min={0}
+                            max={wallHeight}
+                            value={section.top}
+                            onChange={(e) => updateSection(i, { top: Number(e.target.value) })}
+                            className="w-12 bg-stone-800 text-white px-1 rounded border border-stone-600 outline-none"
+                         />
+                         <span>to</span>
+                         <input
+                            type="number"
+                            min={0}
+                            max={wallHeight}
+                            value={section.bottom}
+                            onChange={(e) => updateSection(i, { bottom: Number(e.target.value) })}
+                            className="w-12 bg-stone-800 text-white px-1 rounded border border-stone-600 outline-none"
+                         />
+                         <span className="flex-1 text-right text-yellow-400 font-bold">{section.angle}°</span>
+                         <button
+                            onClick={() => onUpdateSections(sections.filter((_, j) => j !== i))}
+                            className="ml-1 text-gray-500 hover:text-red-400"
+                            title="Remove section"
+                         >
+                             ✕
+                         </button>
+                     </div>
+                     <input
+                        type="range"
+                        min="-10"
+                        max="90"
+                        step="5"
+                        value={section.angle}
+                        onChange={(e) => updateSection(i, { angle: Number(e.target.value) })}
+                        className="w-full h-1.5 mt-1 bg-stone-600 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                     />
+                 </div>
+             ))}
+         </div>
+      </div>
+
+      {/* Start & Finish Rules */}
+      <div className="bg-stone-800 p-3 rounded-lg border border-stone-700">
+         <h4 className="font-semibold text-gray-300 mb-2">Rules</h4>
+         <div className="flex items-center justify-between gap-2 mb-2 text-xs text-gray-400">
+             <span>Start</span>
+             <select
+                value={startRule}
+                onChange={(e) => onUpdateRules({ startRule: e.target.value as StartRule })}
+                className="bg-stone-900 text-white px-2 py-1 rounded border border-stone-600 outline-none"
+             >
+                 {(Object.keys(START_RULE_LABELS) as StartRule[]).map(rule => (
+                     <option key={rule} value={rule}>{START_RULE_LABELS[rule]}</option>
+                 ))}
+             </select>
+         </div>
+         <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+             <span>Finish</span>
+             <select
+                value={finishRule}
+                onChange={(e) => onUpdateRules({ finishRule: e.target.value as FinishRule })}
+                className="bg-stone-900 text-white px-2 py-1 rounded border border-stone-600 outline-none"
+             >
+                 {(Object.keys(FINISH_RULE_LABELS) as FinishRule[]).map(rule => (
+                     <option key={rule} value={rule}>{FINISH_RULE_LABELS[rule]}</option>
+                 ))}
+             </select>
+         </div>
+      </div>
+
+      {/* Grade Estimate */}
+      <div className="bg-stone-800 p-3 rounded-lg border border-stone-700">
+         <div className="flex items-center justify-between">
+             <h4 className="font-semibold text-gray-300">Estimated Grade</h4>
+             <span className="text-[10px] text-gray-500">Set: {difficulty || '—'}</span>
+         </div>
+         <div className="flex items-end justify-between mt-1">
+             <div>
+                 <span className="text-2xl font-bold text-yellow-400 font-mono">{gradeEstimate.grade}</span>
+                 <span className="text-[10px] text-gray-500 ml-2">{Math.round(gradeEstimate.confidence * 100)}% confidence</span>
+             </div>
+             <button
+                onClick={onApplyGrade}
+                disabled={gradeEstimate.grade === difficulty}
+                className="px-2 py-1 text-xs rounded bg-stone-700 hover:bg-stone-600 disabled:opacity-40 text-white"
+             >
+                Use
+             </button>
+         </div>
+         <div className="w-full h-1 bg-gray-700 rounded-full overflow-hidden mt-1">
+             <div className="h-full bg-yellow-500/70" style={{ width: `${gradeEstimate.confidence * 100}%` }} />
+         </div>
       </div>
 
       {/* AI Generation */}
@@ -169,17 +414,290 @@ const EditorControls: React.FC<EditorControlsProps> = ({
         </div>
       </div>
 
+      {/* Hold Shape */}
+      <div className="bg-stone-800 p-3 rounded-lg border border-stone-700">
+        <div className="flex items-center justify-between mb-2">
+            <h4 className="font-semibold text-gray-300">Hold Shape</h4>
+            <button
+                onClick={() => setHoldAttributes(HOLD_DEFAULT_ATTRIBUTES[currentTool])}
+                disabled={isDefaultShape}
+                className="text-[10px] text-gray-400 hover:text-white disabled:opacity-40"
+            >
+                Reset
+            </button>
+        </div>
+        <div className="flex flex-col gap-2">
+            {attributeFields.map(field => (
+                <div key={field.key}>
+                    <div className="flex justify-between text-[10px] text-gray-400">
+                        <span>{field.label}</span>
+                        <span className="font-mono text-gray-300">{field.format(holdAttributes[field.key])}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={field.min}
+                        max={field.max}
+                        step={field.step}
+                        value={holdAttributes[field.key]}
+                        onChange={(e) => setHoldAttributes({ ...holdAttributes, [field.key]: Number(e.target.value) })}
+                        className="w-full h-1.5 bg-stone-600 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                    />
+                </div>
+            ))}
+        </div>
+      </div>
+
+      {/* Problems */}
+      <div className="bg-stone-800 p-3 rounded-lg border border-stone-700">
+        <div className="flex items-center justify-between mb-2">
+            <h4 className="font-semibold text-gray-300">Problems</h4>
+            <button
+                onClick={onAddProblem}
+                disabled={selectedHolds.length === 0}
+                className="px-2 py-0.5 text-xs rounded bg-stone-700 hover:bg-stone-600 text-white disabled:opacity-40"
+                title="New problem from the selected holds"
+            >
+                + From selection
+            </button>
+        </div>
+        {problems.length === 0 && <div className="text-[10px] text-gray-500">The whole wall is one route. Select holds of one color to add a problem.</div>}
+        <div className="flex flex-col gap-2">
+            {problems.map(problem => (
+                <div key={problem.id} className="bg-stone-900/60 p-2 rounded border border-stone-700 flex flex-col gap-1">
+                    <div className="flex items-center gap-1">
+                        {problem.color && !problem.holdIds
+                            ? <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: problem.color }} title="Holds of this color" />
+                            : <span className="text-[10px] text-gray-400 shrink-0" title="Listed holds">{problem.holdIds?.length || 0}h</span>}
+                        <input
+                            type="text"
+                            value={problem.name}
+                            onChange={(e) => updateProblem(problem.id, { name: e.target.value })}
+                            className="flex-1 min-w-0 bg-stone-800 text-white text-xs px-1 rounded border border-stone-600 outline-none"
+                        />
+                        <input
+                            type="text"
+                            value={problem.grade}
+                            onChange={(e) => updateProblem(problem.id, { grade: e.target.value })}
+                            className="w-10 bg-stone-800 text-white text-xs px-1 rounded border border-stone-600 outline-none font-mono"
+                            title="Grade"
+                        />
+                        <button onClick={() => onUpdateProblems(problems.filter(p => p.id !== problem.id))} className="text-gray-500 hover:text-red-400 text-xs" title="Remove problem">✕</button>
+                    </div>
+                    <div className="flex items-center gap-1 text-[10px] text-gray-400">
+                        <span className="flex-1">{problem.startHoldIds.length} start · {problem.finishHoldIds.length} finish</span>
+                        <button
+                            onClick={() => updateProblem(problem.id, { startHoldIds: selectedIds })}
+                            disabled={selectedIds.length === 0}
+                            className="px-1.5 rounded bg-stone-700 hover:bg-stone-600 text-purple-200 disabled:opacity-40"
+                            title="Selected holds become the start"
+                        >
+                            Start
+                        </button>
+                        <button
+                            onClick={() => updateProblem(problem.id, { finishHoldIds: selectedIds })}
+                            disabled={selectedIds.length === 0}
+                            className="px-1.5 rounded bg-stone-700 hover:bg-stone-600 text-pink-200 disabled:opacity-40"
+                            title="Selected holds become the finish"
+                        >
+                            Finish
+                        </button>
+                        <button
+                            onClick={() => updateProblem(problem.id, { holdIds: selectedIds })}
+                            disabled={selectedIds.length === 0}
+                            className="px-1.5 rounded bg-stone-700 hover:bg-stone-600 text-white disabled:opacity-40"
+                            title="The problem is exactly the selected holds"
+                        >
+                            Holds
+                        </button>
+                    </div>
+                </div>
+            ))}
+        </div>
+      </div>
+
+      {/* Selection Inspector */}
+      {selectedHolds.length > 0 && (
+        <div className="bg-stone-800 p-3 rounded-lg border border-sky-700/60">
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="font-semibold text-sky-300">
+                    {selectedHolds.length === 1 ? 'Selected Hold' : `${selectedHolds.length} Holds Selected`}
+                </h4>
+                <button onClick={onDeleteSelectedHolds} className="text-[10px] text-gray-400 hover:text-red-400">Delete</button>
+            </div>
+            <div className="flex gap-2 mb-2">
+                <select
+                    value={selectedHolds.every(h => h.type === selectedHolds[0].type) ? selectedHolds[0].type : ''}
+                    onChange={(e) => onUpdateSelectedHolds({ type: e.target.value as HoldType })}
+                    className="flex-1 bg-stone-900 text-white text-xs px-2 py-1 rounded border border-stone-600 outline-none focus:border-sky-500 capitalize"
+                >
+                    {!selectedHolds.every(h => h.type === selectedHolds[0].type) && <option value="" disabled>Mixed</option>}
+                    {tools.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+                <input
+                    type="color"
+                    value={selectedHolds[0].color || HOLD_COLORS[selectedHolds[0].type]}
+                    onChange={(e) => onUpdateSelectedHolds({ color: e.target.value })}
+                    className="w-8 h-7 bg-transparent cursor-pointer"
+                    title="Color"
+                />
+            </div>
+            <div className="flex justify-between text-[10px] text-gray-400">
+                <span>Rotation</span>
+                <span className="font-mono text-gray-300">
+                    {selectedHolds.every(h => h.rotation === selectedHolds[0].rotation) ? `${Math.round(selectedHolds[0].rotation)}°` : 'mixed'}
+                </span>
+            </div>
+            <input
+                type="range"
+                min={0}
+                max={359}
+                step={1}
+                value={Math.round(((selectedHolds[0].rotation % 360) + 360) % 360)}
+                onChange={(e) => onUpdateSelectedHolds({ rotation: Number(e.target.value) })}
+                className="w-full h-1.5 bg-stone-600 rounded-lg appearance-none cursor-pointer accent-sky-500"
+            />
+        </div>
+      )}
+
       <div className="text-xs text-gray-500">
-        Click on the wall to place selected hold. Click existing hold to remove.
+        Click the wall to place the selected hold type. Click or box-drag to select holds, drag to move, and use the handle to rotate.
+        Ctrl+C / Ctrl+V copy and paste, Ctrl+D duplicates, Delete removes.
+      </div>
+
+      {/* Route Linter */}
+      <div className="bg-stone-800 p-3 rounded-lg border border-stone-700">
+        <div className="flex items-center justify-between mb-2">
+            <h4 className="font-semibold text-gray-300">Route Check</h4>
+            <span className="text-[10px] text-gray-500">
+                {lintIssues.filter(i => i.severity === 'error').length} errors · {lintIssues.filter(i => i.severity === 'warning').length} warnings
+            </span>
+        </div>
+        {lintIssues.length === 0 ? (
+            <div className="text-xs text-green-400">✓ No problems found</div>
+        ) : (
+            <ul className="flex flex-col gap-1 max-h-32 overflow-y-auto">
+                {lintIssues.map(issue => (
+                    <li key={issue.id}>
+                        <button
+                            onClick={() => onSelectIssue(selectedIssueId === issue.id ? null : issue)}
+                            disabled={issue.holdIds.length === 0}
+                            className={`w-full text-left text-[10px] px-2 py-1 rounded border transition-colors disabled:cursor-default
+                                ${selectedIssueId === issue.id ? 'bg-stone-700 border-red-400' : 'bg-stone-900/50 border-stone-700 hover:bg-stone-700'}
+                                ${issue.severity === 'error' ? 'text-red-300' : 'text-yellow-300'}`}
+                        >
+                            {issue.severity === 'error' ? '✕' : '⚠'} {issue.message}
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        )}
+      </div>
+
+      {/* Beta Solver */}
+      <div className="bg-stone-800 p-3 rounded-lg border border-stone-700">
+        <div className="flex items-center justify-between mb-2">
+            <h4 className="font-semibold text-gray-300">Climbable?</h4>
+            <span className="text-[10px] text-gray-500">{realismMode ? 'Realism ON' : 'Realism OFF'}</span>
+        </div>
+        <button
+            onClick={onCheckRoute}
+            disabled={isSolving}
+            className="w-full py-1.5 bg-stone-700 hover:bg-stone-600 disabled:opacity-50 text-white rounded font-bold text-xs"
+        >
+            {isSolving ? 'Searching...' : 'Find Beta'}
+        </button>
+
+        {betaResult && (betaResult.solvable ? (
+            <div className="mt-2">
+                <div className="text-xs text-green-400 font-bold mb-1">✓ Topped in {betaResult.moves.length} moves</div>
+                <ol className="text-[10px] text-gray-400 font-mono max-h-32 overflow-y-auto list-decimal pl-5">
+                    {betaResult.moves.map((m, i) => (
+                        <li key={i}>
+                            {LIMB_LABELS[m.limb]} → {m.holdId}
+                            <span className="text-gray-600"> ({Math.round(m.stamina)}% / {Math.round(Math.max(m.armPump.left, m.armPump.right))}% pump)</span>
+                            {m.restMs && <span className="text-cyan-600"> shake out {Math.round(m.restMs / 1000)}s</span>}
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        ) : (
+            <div className={`mt-2 text-xs ${betaResult.exhausted ? 'text-yellow-400' : 'text-red-400'}`}>
+                <div className="font-bold">{betaResult.exhausted ? '? Inconclusive (search limit reached)' : '✕ Unsolvable'}</div>
+                <div className="text-[10px] text-gray-400">{betaResult.reason}</div>
+                <div className="text-[10px] text-gray-500">High point: {betaResult.highPoint} up the wall</div>
+            </div>
+        ))}
+      </div>
+
+      {/* Route Library */}
+      <div className="bg-stone-800 p-3 rounded-lg border border-stone-700">
+        <div className="flex items-center justify-between mb-2">
+            <h4 className="font-semibold text-gray-300">My Routes</h4>
+            <span className={`text-[10px] ${!isSaved ? 'text-gray-500' : hasUnsavedChanges ? 'text-yellow-400' : 'text-green-400'}`}>
+                {!isSaved ? 'Not saved' : hasUnsavedChanges ? 'Unsaved changes' : '✓ Saved'}
+            </span>
+        </div>
+        <div className="text-xs text-white font-bold truncate mb-2" title={levelName}>{levelName}</div>
+        <div className="grid grid-cols-2 gap-2">
+            <button
+                onClick={onSave}
+                disabled={isSaved && !hasUnsavedChanges}
+                className="py-1.5 bg-green-900/50 hover:bg-green-800 text-green-200 rounded border border-green-800 text-xs disabled:opacity-40"
+            >
+                Save
+            </button>
+            <button onClick={onSaveAs} className="py-1.5 bg-stone-700 hover:bg-stone-600 text-white rounded text-xs">
+                Save As…
+            </button>
+            <button onClick={onRename} className="py-1.5 bg-stone-700 hover:bg-stone-600 text-white rounded text-xs">
+                Rename
+            </button>
+            <button onClick={onDuplicate} className="py-1.5 bg-stone-700 hover:bg-stone-600 text-white rounded text-xs">
+                Duplicate
+            </button>
+            <button
+                onClick={onDelete}
+                disabled={!isSaved}
+                className="col-span-2 py-1.5 bg-red-900/30 hover:bg-red-900/60 text-red-300 rounded border border-red-900 text-xs disabled:opacity-40"
+                title={isSaved ? 'Remove from My Routes' : 'Only saved routes can be deleted'}
+            >
+                Delete Route
+            </button>
+            <input
+                type="file"
+                ref={routeFileInputRef}
+                onChange={handleRouteFileChange}
+                className="hidden"
+                accept=".json,application/json"
+            />
+            <button
+                onClick={() => routeFileInputRef.current?.click()}
+                className="py-1.5 bg-stone-700 hover:bg-stone-600 text-white rounded text-xs"
+                title="Open a route file shared by someone else"
+            >
+                ⬆ Import
+            </button>
+            <button
+                onClick={onExport}
+                className="py-1.5 bg-stone-700 hover:bg-stone-600 text-white rounded text-xs"
+                title="Download this route as a file"
+            >
+                ⬇ Export
+            </button>
+            <button
+                onClick={handleCopyShareLink}
+                className="col-span-2 py-1.5 bg-blue-900/50 hover:bg-blue-800 text-blue-200 rounded border border-blue-800 text-xs"
+                title="Anyone opening the link plays this route"
+            >
+                {linkCopied ? '✓ Link copied' : '🔗 Copy share link'}
+            </button>
+        </div>
       </div>
 
       <div className="flex gap-2 pt-2">
           <button onClick={onClear} className="flex-1 py-2 bg-red-900/50 hover:bg-red-800 text-red-200 rounded border border-red-800">
               Clear All
           </button>
-          <button onClick={onSave} className="flex-1 py-2 bg-green-900/50 hover:bg-green-800 text-green-200 rounded border border-green-800">
-              Save Level
-          </button>
       </div>
     </div>
   );
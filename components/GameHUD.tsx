@@ -1,6 +1,7 @@
 
 import React from 'react';
-import { ClimberState, Level } from '../types';
+import { ClimberState, Level, LandingOutcome, LandingReport, ProtectionMode, Problem, StartRule, FinishRule } from '../types';
+import { START_RULE_LABELS, FINISH_RULE_LABELS } from '../utils/rules';
 
 interface GameHUDProps {
   state: ClimberState;
@@ -14,8 +15,29 @@ interface GameHUDProps {
   isSlipping: boolean;
   wallAngle: number;
   height?: number;
+  ghostBestMs?: number | null;
+  splitDelta?: { index: number; total: number; deltaMs: number } | null;
+  landing?: LandingReport | null;
+  protection?: ProtectionMode | null; // Sport routes only
+  problem?: Problem | null; // Circuit walls: the problem being climbed
+  startRule?: StartRule;
+  finishRule?: FinishRule;
 }
 
+const LANDING_STYLES: Record<LandingOutcome, { label: string; className: string }> = {
+    clean: { label: 'Clean landing', className: 'bg-green-900/40 border-green-700 text-green-300' },
+    hard: { label: 'Hard landing', className: 'bg-yellow-900/40 border-yellow-700 text-yellow-300' },
+    rolledAnkle: { label: 'Rolled ankle', className: 'bg-orange-900/40 border-orange-700 text-orange-300' },
+    injured: { label: 'Injured', className: 'bg-red-900/50 border-red-700 text-red-300' },
+    fatal: { label: 'Fatal fall', className: 'bg-red-950 border-red-600 text-red-200' },
+};
+
+const PROTECTION_LABELS: Record<ProtectionMode, { label: string; className: string }> = {
+    freeSolo: { label: 'FREE SOLO', className: 'bg-red-900/60 text-red-200' },
+    topRope: { label: 'TOP-ROPE', className: 'bg-cyan-900/60 text-cyan-200' },
+    lead: { label: 'LEAD', className: 'bg-indigo-900/60 text-indigo-200' },
+};
+
 const GameHUD: React.FC<GameHUDProps> = ({ 
     state, 
     levelName, 
@@ -27,7 +49,14 @@ const GameHUD: React.FC<GameHUDProps> = ({
     toggleRealismMode,
     isSlipping,
     wallAngle,
-    height = 100
+    height = 100,
+    ghostBestMs,
+    splitDelta,
+    landing,
+    protection,
+    problem,
+    startRule = 'standing',
+    finishRule = 'match'
 }) => {
   const getAngleText = (angle: number) => {
       if (angle === 0) return 'VERTICAL';
@@ -54,9 +83,12 @@ const GameHUD: React.FC<GameHUDProps> = ({
 
   const getStatusText = () => {
       if (state.status === 'idle') return 'STANDING (SAFE)';
+      if (state.hanging) return 'ON THE ROPE';
+      if (state.mantle !== undefined) return `MANTLING ${Math.round(state.mantle * 100)}%`;
       if (state.status === 'climbing') return 'CLIMBING';
       if (state.status === 'falling') return 'FALLING!';
       if (state.status === 'topped') return 'TOPPED!';
+      if (state.status === 'decked') return 'DECKED!';
       return state.status;
   };
 
@@ -71,19 +103,71 @@ const GameHUD: React.FC<GameHUDProps> = ({
             </div>
         </div>
         
+        {problem && (
+             <div className="text-xs text-stone-400 mb-2">
+                 Problem: <span className="text-white font-bold">{problem.name}</span> <span className="font-mono">({problem.grade})</span>
+             </div>
+        )}
+
+        <div className="text-[10px] text-stone-500 mb-2">
+            {START_RULE_LABELS[startRule]} · {FINISH_RULE_LABELS[finishRule]}
+        </div>
+
         {height > 150 && (
              <div className="text-xs font-mono text-stone-500 mb-2">
                  Altitude: <span className="text-white font-bold">{altitude}m</span> / {height}m
              </div>
         )}
         
-        <div className={`text-sm font-semibold mb-3 uppercase tracking-wider
-            ${state.status === 'climbing' ? 'text-blue-400' : 
-              state.status === 'falling' ? 'text-red-500' : 
-              state.status === 'topped' ? 'text-green-400' : 'text-emerald-400'}`}>
-            {getStatusText()}
+        <div className="flex justify-between items-center mb-3">
+            <div className={`text-sm font-semibold uppercase tracking-wider
+                ${state.status === 'climbing' ? 'text-blue-400' : 
+                  state.status === 'falling' || state.status === 'decked' ? 'text-red-500' : 
+                  state.status === 'topped' ? 'text-green-400' : 'text-emerald-400'}`}>
+                {getStatusText()}
+            </div>
+            {protection && (
+                <div className={`text-[10px] px-2 py-0.5 rounded font-mono font-bold ${PROTECTION_LABELS[protection].className}`}>
+                    {PROTECTION_LABELS[protection].label}
+                </div>
+            )}
         </div>
 
+        {/* Rules */}
+        {state.offRouteHoldIds && state.offRouteHoldIds.length > 0 && (
+            <div className="text-xs px-2 py-1.5 rounded mb-3 border bg-red-900/40 border-red-700 text-red-300">
+                <span className="font-bold">Off-route!</span> Used {state.offRouteHoldIds.length} hold{state.offRouteHoldIds.length > 1 ? 's' : ''} off the problem; this attempt won't count.
+            </div>
+        )}
+
+        {state.invalidStart && (
+            <div className="text-xs px-2 py-1.5 rounded mb-3 border bg-red-900/40 border-red-700 text-red-300">
+                <span className="font-bold">Invalid start!</span> {startRule === 'sit'
+                    ? 'Pull on from sitting: both hands on the start holds before the feet leave the pad.'
+                    : 'Establish on the start holds: both hands on them and feet off the floor.'} Step back down to try again.
+            </div>
+        )}
+
+        {/* Last Landing */}
+        {landing && (
+            <div className={`flex justify-between items-center text-xs px-2 py-1.5 rounded mb-3 border ${LANDING_STYLES[landing.outcome].className}`}>
+                <span className="font-bold">{LANDING_STYLES[landing.outcome].label}</span>
+                <span className="font-mono">{landing.fallHeight} fall, {landing.onPad ? 'on pad' : 'off pad!'}</span>
+            </div>
+        )}
+
+        {/* Ghost Race */}
+        {ghostBestMs != null && (
+            <div className="flex justify-between items-center text-xs font-mono bg-stone-900/50 px-2 py-1.5 rounded mb-3 border border-stone-700/50">
+                <span className="text-stone-400">👻 Best {(ghostBestMs / 1000).toFixed(1)}s</span>
+                {splitDelta && (
+                    <span className={`font-bold ${splitDelta.deltaMs <= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {splitDelta.index + 1}/{splitDelta.total} {splitDelta.deltaMs <= 0 ? '-' : '+'}{(Math.abs(splitDelta.deltaMs) / 1000).toFixed(1)}s
+                    </span>
+                )}
+            </div>
+        )}
+
         {/* Core Energy */}
         <div className="mb-4">
           <div className="flex justify-between text-xs text-gray-300 mb-1">
@@ -162,7 +246,7 @@ const GameHUD: React.FC<GameHUDProps> = ({
             onClick={onReset}
             className="w-full py-2 bg-stone-700 hover:bg-stone-600 text-white text-sm font-bold rounded transition-colors"
         >
-            {state.status === 'topped' || state.status === 'falling' ? 'Try Again' : 'Reset Climb'}
+            {state.status === 'topped' || state.status === 'falling' || state.status === 'decked' ? 'Try Again' : 'Reset Climb'}
         </button>
       </div>
 
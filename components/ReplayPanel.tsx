@@ -0,0 +1,121 @@
+import React from 'react';
+import { ReplayLog, AttemptResult } from '../types';
+import { SIM_TIMESTEP_MS } from '../utils/simulation';
+import { PLAYBACK_SPEEDS, ReplayPlayback, getReplayDurationMs } from '../utils/replay';
+
+interface ReplayPanelProps {
+  replays: ReplayLog[];
+  playback: ReplayPlayback | null;
+  onWatch: (log: ReplayLog) => void;
+  onTogglePlay: () => void;
+  onSeek: (step: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+const formatTime = (ms: number) => {
+    const totalSeconds = ms / 1000;
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+    return `${minutes}:${seconds}`;
+};
+
+const RESULT_STYLES: Record<AttemptResult, string> = {
+    topped: 'bg-green-900/60 text-green-300 border-green-700',
+    fell: 'bg-red-900/60 text-red-300 border-red-700',
+    reset: 'bg-stone-700 text-stone-300 border-stone-600',
+};
+
+const ReplayPanel: React.FC<ReplayPanelProps> = ({
+    replays,
+    playback,
+    onWatch,
+    onTogglePlay,
+    onSeek,
+    onSpeedChange,
+    onExit
+}) => {
+  if (!playback && replays.length === 0) return null;
+
+  if (playback) {
+      const { log } = playback.timeline;
+      const atEnd = playback.step >= log.totalSteps;
+
+      return (
+        <div className="bg-stone-800 p-4 rounded-xl border border-yellow-700/60 shadow-lg">
+            <div className="flex justify-between items-center mb-3">
+                <h3 className="text-sm font-bold uppercase tracking-wider text-yellow-400">▶ Replay</h3>
+                <button onClick={onExit} className="text-xs text-gray-400 hover:text-white">Back to live ✕</button>
+            </div>
+
+            <div className="flex items-center gap-2 mb-2">
+                <button
+                    onClick={() => atEnd ? onSeek(0) : onTogglePlay()}
+                    className="w-8 h-8 flex items-center justify-center rounded bg-stone-700 hover:bg-stone-600 text-white"
+                    title={playback.playing ? 'Pause' : 'Play'}
+                >
+                    {atEnd ? '↺' : playback.playing ? '❚❚' : '▶'}
+                </button>
+                <input
+                    type="range"
+                    min={0}
+                    max={log.totalSteps}
+                    step={1}
+                    value={Math.floor(playback.step)}
+                    onChange={(e) => onSeek(Number(e.target.value))}
+                    className="flex-1 h-2 bg-stone-600 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                />
+            </div>
+
+            <div className="flex justify-between items-center text-[10px] font-mono text-gray-400 mb-3">
+                <span>{formatTime(playback.step * SIM_TIMESTEP_MS)}</span>
+                <span>{formatTime(getReplayDurationMs(log))}</span>
+            </div>
+
+            <div className="flex gap-1">
+                {PLAYBACK_SPEEDS.map(speed => (
+                    <button
+                        key={speed}
+                        onClick={() => onSpeedChange(speed)}
+                        className={`flex-1 py-1 text-[10px] rounded border transition-colors
+                            ${playback.speed === speed ? 'bg-yellow-600/50 border-yellow-500 text-yellow-200' : 'bg-stone-700 border-stone-600 text-gray-400 hover:text-white'}`}
+                    >
+                        {speed}x
+                    </button>
+                ))}
+            </div>
+        </div>
+      );
+  }
+
+  return (
+    <div className="bg-stone-800 p-4 rounded-xl border border-stone-700 shadow-lg">
+        <h3 className="text-sm font-bold uppercase tracking-wider text-gray-300 mb-2">Recent Attempts</h3>
+        <ul className="flex flex-col gap-1.5">
+            {replays.map(log => (
+                <li key={log.id} className="flex items-center gap-2 text-xs">
+                    <span className={`px-1.5 py-0.5 rounded border uppercase text-[9px] font-bold w-14 text-center ${RESULT_STYLES[log.result || 'reset']}`}>
+                        {log.result || 'reset'}
+                    </span>
+                    {log.offRouteHoldIds && (
+                        <span className="text-[9px] text-red-400 font-bold" title={`Used ${log.offRouteHoldIds.join(', ')}`}>OFF-ROUTE</span>
+                    )}
+                    {log.invalidStart && (
+                        <span className="text-[9px] text-red-400 font-bold" title="Moved on before establishing the start">INVALID START</span>
+                    )}
+                    <span className="font-mono text-gray-300">{formatTime(getReplayDurationMs(log))}</span>
+                    <span className="text-gray-500 flex-1 truncate">{new Date(log.recordedAt).toLocaleTimeString()}</span>
+                    <button
+                        onClick={() => onWatch(log)}
+                        className="px-2 py-0.5 rounded bg-stone-700 hover:bg-stone-600 text-white"
+                    >
+                        Watch
+                    </button>
+                </li>
+            ))}
+        </ul>
+    </div>
+  );
+};
+
+export default ReplayPanel;
@@ -1,5 +1,6 @@
 
-import { HoldType, SimulationConfig, Level, Hold } from './types';
+import { HoldType, SimulationConfig, Level, Hold, Bolt, ClimberProfile, HoldAttributes, CrashPad, LandingOutcome, Point } from './types';
+import { createRng } from './utils/random';
 
 export const INITIAL_STAMINA = 100;
 export const INITIAL_CHALK = 100;
@@ -26,6 +27,48 @@ export const MAX_REACH = {
   foot: ANATOMY.legUpper + ANATOMY.legLower,
 };
 
+// Two pads side by side under the middle of the wall
+export const DEFAULT_CRASH_PADS: CrashPad[] = [
+  { x: 12, width: 38 },
+  { x: 50, width: 38 },
+];
+
+// Fall height (COM drop, wall units) at which each landing outcome starts. Off-pad landings
+// count as twice as high; landing on a pad edge or seam as half again.
+export const LANDING_THRESHOLDS: { outcome: LandingOutcome; minHeight: number }[] = [
+  { outcome: 'injured', minHeight: 80 },
+  { outcome: 'rolledAnkle', minHeight: 45 },
+  { outcome: 'hard', minHeight: 22 },
+  { outcome: 'clean', minHeight: 0 },
+];
+
+// Stamina left after picking yourself up
+export const LANDING_STAMINA: Record<LandingOutcome, number> = {
+  clean: 50,
+  hard: 35,
+  rolledAnkle: 15,
+  injured: 0,
+  fatal: 0,
+};
+
+// The climber ANATOMY describes. Other profiles are scaled from these measurements.
+export const REFERENCE_PROFILE: ClimberProfile = {
+  id: 'reference',
+  name: 'Average',
+  heightCm: 175,
+  apeIndexCm: 0,
+  legLengthCm: 82,
+  weightKg: SIMULATION_CONFIG.climberWeightKg,
+};
+
+export const CLIMBER_PROFILES: ClimberProfile[] = [
+  REFERENCE_PROFILE,
+  { id: 'short', name: 'Short & Light', heightCm: 158, apeIndexCm: 2, legLengthCm: 72, weightKg: 52 },
+  { id: 'tall', name: 'Tall & Rangy', heightCm: 190, apeIndexCm: 6, legLengthCm: 91, weightKg: 78 },
+  { id: 'ape', name: 'Big Wingspan', heightCm: 170, apeIndexCm: 10, legLengthCm: 78, weightKg: 63 },
+  { id: 'heavy', name: 'Powerhouse', heightCm: 178, apeIndexCm: -2, legLengthCm: 83, weightKg: 88 },
+];
+
 export const HOLD_COLORS: Record<HoldType, string> = {
   jug: '#10b981', 
   crimp: '#ef4444', 
@@ -56,9 +99,81 @@ export const HOLD_FRICTION: Record<HoldType, number> = {
   sloper: 0.2, 
 };
 
+// How many limbs fit on one hold. Small holds take a hand and one more limb (a match or a foot).
+export const HOLD_CAPACITY: Record<HoldType, number> = {
+  crimp: 2,
+  pocket: 2,
+  sloper: 2,
+  jug: 3,
+  start: 3,
+  finish: 3,
+  volume: 4,
+};
+
+// Pump multiplier for each hand when both share a hold: matching a crimp means half an edge each
+export const HOLD_MATCH_PUMP: Record<HoldType, number> = {
+  crimp: 1.6,
+  pocket: 1.8,
+  sloper: 1.3,
+  jug: 1.0,
+  start: 1.0,
+  finish: 1.0,
+  volume: 1.0,
+};
+
+// A foot on the same hold as a hand: high step, hand crowded off part of the hold
+export const HAND_FOOT_MATCH = {
+  pump: 1.4,
+  core: 0.03,
+};
+
+// A standard hold of each type. HOLD_STAMINA_DRAIN and HOLD_FRICTION are calibrated for these.
+export const HOLD_DEFAULT_ATTRIBUTES: Record<HoldType, HoldAttributes> = {
+  jug: { edgeDepthMm: 45, size: 1, incutDeg: 25 },
+  start: { edgeDepthMm: 40, size: 1, incutDeg: 15 },
+  finish: { edgeDepthMm: 40, size: 1, incutDeg: 15 },
+  crimp: { edgeDepthMm: 12, size: 1, incutDeg: 0 },
+  pocket: { edgeDepthMm: 20, size: 1, incutDeg: 5 },
+  sloper: { edgeDepthMm: 35, size: 1, incutDeg: -25 },
+  volume: { edgeDepthMm: 60, size: 1, incutDeg: -30 },
+};
+
+// Approximate footprint of each hold as drawn, in wall units
+export const HOLD_RADIUS: Record<HoldType, number> = {
+  jug: 3,
+  crimp: 3,
+  sloper: 5,
+  pocket: 3,
+  volume: 7,
+  start: 4,
+  finish: 4,
+};
+
 // --- Procedural Generation for Sport Routes ---
 
-const generateSportRoute = (id: string, name: string, height: number, difficulty: string, angle: number): Level => {
+// Vertical distance between lead bolts
+export const BOLT_SPACING = 20;
+
+// One bolt every BOLT_SPACING, from the first clip above the start to the anchor by the
+// finish, set just right of whichever hand hold is level with it
+const placeBolts = (id: string, height: number, line: Point[]): Bolt[] => {
+    const bolts: Bolt[] = [];
+    for (let y = height - 40; y >= 12; y -= BOLT_SPACING) {
+        const nearest = line.reduce((best, p) => Math.abs(p.y - y) < Math.abs(best.y - y) ? p : best, line[0]);
+        bolts.push({ id: `${id}_b${bolts.length + 1}`, x: Math.min(90, nearest.x + 8), y });
+    }
+    return bolts;
+};
+
+// Sideways drift between hand holds. With a move every stepY, this keeps each hold within
+// reach of the last; wider drifts made gaps no arm span could cross.
+const MAX_SWAY = 18;
+
+// Every few moves is a jug to shake out on, whatever the grade
+const REST_EVERY = 4;
+
+export const generateSportRoute = (id: string, name: string, height: number, difficulty: string, angle: number, seed: number): Level => {
+    const random = createRng(seed);
     const holds: Hold[] = [];
     const stepY = 15; // Vertical distance between "moves"
     const moves = Math.floor(height / stepY);
@@ -76,6 +191,7 @@ const generateSportRoute = (id: string, name: string, height: number, difficulty
     );
 
     let currentX = 50;
+    const line: Point[] = [{ x: 50, y: height - 28 }];
     
     // Adjust loop to account for new start height
     for (let i = 2; i < moves; i++) {
@@ -83,11 +199,11 @@ const generateSportRoute = (id: string, name: string, height: number, difficulty
         if (y < 20) break; // Don't go above finish
 
         // Random sway left/right
-        const sway = (Math.random() - 0.5) * 60; 
+        const sway = (random() - 0.5) * 2 * MAX_SWAY;
         const nextX = Math.max(20, Math.min(80, currentX + sway));
         
         // Determine hold type based on difficulty and angle
-        const rand = Math.random();
+        const rand = random();
         let type: HoldType = 'jug';
         let rotation = 0;
 
@@ -100,6 +216,7 @@ const generateSportRoute = (id: string, name: string, height: number, difficulty
             else if (rand > 0.1) type = 'pocket';
             else type = 'sloper';
         }
+        if (i % REST_EVERY === 0) type = 'jug';
 
         // Add main hand hold
         holds.push({
@@ -107,25 +224,25 @@ const generateSportRoute = (id: string, name: string, height: number, difficulty
             x: nextX,
             y: y,
             type,
-            rotation: (Math.random() - 0.5) * 45
+            rotation: (random() - 0.5) * 45
         });
+        line.push({ x: nextX, y });
 
-        // Add intermediate/foot holds
-        if (Math.random() > 0.3) {
-             holds.push({
-                id: `${id}_f${i}`,
-                x: (currentX + nextX) / 2 + (Math.random() - 0.5) * 20,
-                y: y + stepY * 0.5,
-                type: 'crimp',
-                rotation: 90
-            });
-        }
+        // Intermediate/foot hold for every move
+        holds.push({
+            id: `${id}_f${i}`,
+            x: (currentX + nextX) / 2 + (random() - 0.5) * 20,
+            y: y + stepY * 0.5,
+            type: 'crimp',
+            rotation: 90
+        });
         
         currentX = nextX;
     }
 
     // Finish
     holds.push({ id: `${id}_finish`, x: currentX, y: 10, type: 'finish', rotation: 0 });
+    line.push({ x: currentX, y: 10 });
 
     return {
         id,
@@ -134,10 +251,16 @@ const generateSportRoute = (id: string, name: string, height: number, difficulty
         difficulty,
         angle,
         height,
-        holds
+        seed,
+        holds,
+        bolts: placeBolts(id, height, line)
     };
 };
 
+// Rebuilds a procedural route with a different seed, keeping its identity and parameters
+export const regenerateSportRoute = (level: Level, seed: number): Level =>
+    generateSportRoute(level.id, level.name, level.height || 100, level.difficulty, level.angle, seed);
+
 const LEVEL_1_HOLDS = [
   { id: 'start1', x: 45, y: 70, type: 'start', rotation: 0 },
   { id: 'start2', x: 55, y: 70, type: 'start', rotation: 0 },
@@ -228,27 +351,72 @@ const BOULDERING_LEVELS: Level[] = [
     ]
   },
   {
+      // Nothing between the start and the finish: no reach or high step gets there, only a
+      // fully charged dyno caught at the deadpoint
       id: 'lvl12', name: 'The Dyno', author: 'System', difficulty: 'V5', angle: 5,
       holds: [
-          { id: 's1', x: 50, y: 70, type: 'start', rotation: 0 },
+          { id: 's1', x: 45, y: 70, type: 'start', rotation: 0 },
+          { id: 's2', x: 55, y: 70, type: 'start', rotation: 0 },
           { id: 'ft1', x: 50, y: 95, type: 'jug', rotation: 0 }, // Foot hold for start
-          { id: 'j1', x: 50, y: 60, type: 'jug', rotation: 0 },
-          { id: 'f1', x: 50, y: 35, type: 'finish', rotation: 0 }, 
+          { id: 'f1', x: 50, y: 36, type: 'finish', rotation: 0 },
+      ]
+  },
+  {
+      // Two taped problems sharing one wall, gym circuit style
+      id: 'lvl13', name: 'Circuit Board', author: 'System', difficulty: 'V1-V3', angle: 10,
+      holds: [
+          { id: 'yf1', x: 30, y: 95, type: 'jug', rotation: 0, color: '#facc15' },
+          { id: 'ys1', x: 28, y: 70, type: 'jug', rotation: 0, color: '#facc15' },
+          { id: 'ys2', x: 40, y: 72, type: 'jug', rotation: 0, color: '#facc15' },
+          { id: 'y3', x: 28, y: 56, type: 'jug', rotation: -20, color: '#facc15' },
+          { id: 'y4', x: 38, y: 43, type: 'jug', rotation: 10, color: '#facc15' },
+          { id: 'y5', x: 28, y: 30, type: 'jug', rotation: 0, color: '#facc15' },
+          { id: 'yfin', x: 35, y: 15, type: 'jug', rotation: 0, color: '#facc15' },
+          { id: 'bf1', x: 70, y: 95, type: 'crimp', rotation: 0, color: '#38bdf8' },
+          { id: 'bs1', x: 62, y: 70, type: 'crimp', rotation: 0, color: '#38bdf8' },
+          { id: 'bs2', x: 72, y: 70, type: 'crimp', rotation: 0, color: '#38bdf8' },
+          { id: 'b3', x: 70, y: 56, type: 'crimp', rotation: 30, color: '#38bdf8' },
+          { id: 'b4', x: 60, y: 44, type: 'sloper', rotation: 0, color: '#38bdf8' },
+          { id: 'b5', x: 72, y: 32, type: 'crimp', rotation: -20, color: '#38bdf8' },
+          { id: 'bfin', x: 65, y: 15, type: 'jug', rotation: 0, color: '#38bdf8' },
+      ],
+      problems: [
+          { id: 'yellow', name: 'Yellow', grade: 'V1', color: '#facc15', startHoldIds: ['ys1', 'ys2'], finishHoldIds: ['yfin'] },
+          { id: 'blue', name: 'Blue', grade: 'V3', color: '#38bdf8', startHoldIds: ['bs1', 'bs2'], finishHoldIds: ['bfin'] },
+      ]
+  },
+  {
+      // Sit start, then up and over the top: the last holds lead to the lip, not to a finish jug
+      id: 'lvl14', name: 'Highball Top-Out', author: 'System', difficulty: 'V2', angle: 0, height: 130,
+      startRule: 'sit', finishRule: 'topOut',
+      holds: [
+          { id: 'ft1', x: 44, y: 124, type: 'jug', rotation: 0 },
+          { id: 'ft2', x: 56, y: 124, type: 'jug', rotation: 0 },
+          { id: 's1', x: 44, y: 102, type: 'start', rotation: 0 },
+          { id: 's2', x: 56, y: 102, type: 'start', rotation: 0 },
+          { id: 'j1', x: 42, y: 90, type: 'jug', rotation: 0 },
+          { id: 'j2', x: 58, y: 78, type: 'jug', rotation: 0 },
+          { id: 'j3', x: 42, y: 66, type: 'jug', rotation: 0 },
+          { id: 'c1', x: 58, y: 54, type: 'crimp', rotation: 0 },
+          { id: 'j4', x: 44, y: 42, type: 'jug', rotation: 0 },
+          { id: 'sl1', x: 58, y: 30, type: 'sloper', rotation: 0 },
+          { id: 'j5', x: 44, y: 19, type: 'jug', rotation: 0 },
+          { id: 'f1', x: 54, y: 9, type: 'finish', rotation: 0 },
       ]
   }
 ];
 
 const SPORT_LEVELS: Level[] = [
-    generateSportRoute('sport1', 'The Spire', 200, '5.10a', 0),
-    generateSportRoute('sport2', 'Endurance Test', 250, '5.10c', 5),
-    generateSportRoute('sport3', 'Slab Marathon', 250, '5.11a', -5),
-    generateSportRoute('sport4', 'Overhang Overture', 220, '5.11b', 20),
-    generateSportRoute('sport5', 'Pump Fest', 300, '5.11d', 15),
-    generateSportRoute('sport6', 'The Crux', 200, '5.12a', 30),
-    generateSportRoute('sport7', 'Sky High', 350, '5.12b', 0),
-    generateSportRoute('sport8', 'Finger Shredder', 250, '5.12d', 10),
-    generateSportRoute('sport9', 'No Rest', 300, '5.13a', 25),
-    generateSportRoute('sport10', 'El Capitan\'t', 400, '5.13b', 5),
+    generateSportRoute('sport1', 'The Spire', 200, '5.10a', 0, 1801),
+    generateSportRoute('sport2', 'Endurance Test', 250, '5.10c', 5, 2417),
+    generateSportRoute('sport3', 'Slab Marathon', 250, '5.11a', -5, 3329),
+    generateSportRoute('sport4', 'Overhang Overture', 220, '5.11b', 20, 4099),
+    generateSportRoute('sport5', 'Pump Fest', 300, '5.11d', 15, 5153),
+    generateSportRoute('sport6', 'The Crux', 200, '5.12a', 30, 6211),
+    generateSportRoute('sport7', 'Sky High', 350, '5.12b', 0, 7079),
+    generateSportRoute('sport8', 'Finger Shredder', 250, '5.12d', 10, 8117),
+    generateSportRoute('sport9', 'No Rest', 300, '5.13a', 25, 9043),
+    generateSportRoute('sport10', 'El Capitan\'t', 400, '5.13b', 5, 10007),
 ];
 
 export const SAMPLE_LEVELS = [...BOULDERING_LEVELS, ...SPORT_LEVELS];
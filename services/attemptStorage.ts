@@ -0,0 +1,23 @@
+import { AttemptRecord } from '../types';
+
+// Every attempt on every route, keyed by route (see getLevelKey). Records are a few
+// hundred bytes and kept in full: dropping old ones would change which top was the flash.
+const ATTEMPTS_KEY = 'ascent.attempts';
+
+export const loadAttempts = (): Record<string, AttemptRecord[]> => {
+  try {
+    const raw = localStorage.getItem(ATTEMPTS_KEY);
+    return raw ? JSON.parse(raw) as Record<string, AttemptRecord[]> : {};
+  } catch (e) {
+    console.error("Attempt Log Load Error:", e);
+    return {};
+  }
+};
+
+export const saveAttempts = (attempts: Record<string, AttemptRecord[]>) => {
+  try {
+    localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+  } catch (e) {
+    console.error("Attempt Log Save Error:", e);
+  }
+};
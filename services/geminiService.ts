@@ -1,6 +1,7 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { Hold } from '../types';
+import { createId } from '../utils/random';
 
 let genAI: GoogleGenAI | null = null;
 
@@ -76,7 +77,7 @@ export const generateLevelFromImage = async (file: File): Promise<Hold[]> => {
 
     const data = JSON.parse(text) as any[];
     return data.map((h: any) => ({
-      id: h.id || Math.random().toString(36).substr(2, 9),
+      id: h.id || createId(),
       x: Number(h.x),
       y: Number(h.y),
       type: h.type || 'jug',
@@ -129,7 +130,7 @@ export const generateLevel = async (description: string): Promise<Hold[]> => {
       const data = JSON.parse(response.text) as any[];
       // Validate and cast
       return data.map((h: any) => ({
-        id: h.id || Math.random().toString(36).substr(2, 9),
+        id: h.id || createId(),
         x: Number(h.x),
         y: Number(h.y),
         type: h.type,
@@ -0,0 +1,28 @@
+import { GhostTrace } from '../types';
+
+// Best sends are kept in localStorage, one entry per route key
+const STORAGE_PREFIX = 'ascent.ghost.';
+
+export const loadGhost = (levelKey: string): GhostTrace | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + levelKey);
+    return raw ? JSON.parse(raw) as GhostTrace : null;
+  } catch (e) {
+    console.error("Ghost Load Error:", e);
+    return null;
+  }
+};
+
+// Stores the trace if it beats the current best. Returns the ghost to race from now on.
+export const saveGhostIfFaster = (trace: GhostTrace): GhostTrace => {
+  const current = loadGhost(trace.levelKey);
+  if (current && current.durationMs <= trace.durationMs) return current;
+
+  try {
+    localStorage.setItem(STORAGE_PREFIX + trace.levelKey, JSON.stringify(trace));
+  } catch (e) {
+    // Quota exceeded or storage disabled: still race it for this session
+    console.error("Ghost Save Error:", e);
+  }
+  return trace;
+};
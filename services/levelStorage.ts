@@ -0,0 +1,63 @@
+import { Level } from '../types';
+import { readLevelFile, toLevelFile } from '../utils/levelFormat';
+
+// The player's own routes live in localStorage next to profiles. The draft is the level
+// open right now, rewritten on every change so a refresh or crash doesn't lose edits.
+// Both are stored as level files, so they're migrated and validated like imports; older,
+// unversioned entries are plain levels, which the format reads as version 0.
+const LIBRARY_KEY = 'ascent.levels';
+const DRAFT_KEY = 'ascent.draft';
+
+// Holds that strayed off the wall are moved back on. A route that still doesn't validate
+// is kept as stored, with the errors logged, so nothing the player made is thrown away;
+// only entries that aren't a level at all are skipped.
+const readStoredLevel = (data: unknown): Level | null => {
+  const result = readLevelFile(data, { repair: true });
+  if (!('errors' in result)) return result.level;
+
+  const raw = data && typeof data === 'object' && 'level' in data ? (data as { level: unknown }).level : data;
+  const level = raw as Partial<Level> | null;
+  if (level && typeof level.id === 'string' && Array.isArray(level.holds)) {
+    console.error(`Stored Level "${level.id}" Has Errors:`, result.errors);
+    return level as Level;
+  }
+  console.error("Stored Level Skipped:", result.errors);
+  return null;
+};
+
+export const loadSavedLevels = (): Level[] => {
+  try {
+    const raw = localStorage.getItem(LIBRARY_KEY);
+    const files: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(files) ? files.map(readStoredLevel).filter((l): l is Level => l !== null) : [];
+  } catch (e) {
+    console.error("Level Library Load Error:", e);
+    return [];
+  }
+};
+
+export const saveSavedLevels = (levels: Level[]) => {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(levels.map(toLevelFile)));
+  } catch (e) {
+    console.error("Level Library Save Error:", e);
+  }
+};
+
+export const loadDraft = (): Level | null => {
+  try {
+    const raw = localStorage.getItem(DRAFT_KEY);
+    return raw ? readStoredLevel(JSON.parse(raw)) : null;
+  } catch (e) {
+    console.error("Draft Load Error:", e);
+    return null;
+  }
+};
+
+export const saveDraft = (level: Level) => {
+  try {
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(toLevelFile(level)));
+  } catch (e) {
+    console.error("Draft Save Error:", e);
+  }
+};
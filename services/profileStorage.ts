@@ -0,0 +1,41 @@
+import { ClimberProfile } from '../types';
+import { CLIMBER_PROFILES } from '../constants';
+
+// Profiles (presets included, once edited) live in localStorage alongside the selected one
+const PROFILES_KEY = 'ascent.profiles';
+const SELECTED_KEY = 'ascent.profile';
+
+export const loadProfiles = (): ClimberProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const stored = raw ? JSON.parse(raw) as ClimberProfile[] : null;
+    return stored && stored.length > 0 ? stored : CLIMBER_PROFILES;
+  } catch (e) {
+    console.error("Profile Load Error:", e);
+    return CLIMBER_PROFILES;
+  }
+};
+
+export const saveProfiles = (profiles: ClimberProfile[]) => {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.error("Profile Save Error:", e);
+  }
+};
+
+export const loadSelectedProfileId = (): string | null => {
+  try {
+    return localStorage.getItem(SELECTED_KEY);
+  } catch (e) {
+    return null;
+  }
+};
+
+export const saveSelectedProfileId = (id: string) => {
+  try {
+    localStorage.setItem(SELECTED_KEY, id);
+  } catch (e) {
+    console.error("Profile Save Error:", e);
+  }
+};
@@ -6,8 +6,12 @@ export interface Point {
   y: number;
 }
 
+// How a foot uses its hold: standing pushes down, hooks pull the body toward the hold
+export type FootEngagement = 'stand' | 'heel' | 'toe';
+
 export interface AttachedLimb extends Point {
   holdId: string;
+  engagement?: FootEngagement; // Feet only; missing means 'stand'
 }
 
 export interface Hold {
@@ -17,6 +21,52 @@ export interface Hold {
   type: HoldType;
   rotation: number;
   color?: string;
+  // Physical shape. Missing values fall back to the type's defaults.
+  edgeDepthMm?: number; // Usable depth of the edge
+  size?: number; // Contact size relative to a standard hold of this type (1 = standard)
+  incutDeg?: number; // Positive = incut lip, negative = sloping
+}
+
+export type HoldAttributes = Required<Pick<Hold, 'edgeDepthMm' | 'size' | 'incutDeg'>>;
+
+// A pad on the floor, x in wall percent
+export interface CrashPad {
+  x: number; // Left edge
+  width: number;
+}
+
+// A lead bolt with a quickdraw hanging from it
+export interface Bolt {
+  id: string;
+  x: number;
+  y: number;
+}
+
+// A band of the wall with its own angle. y grows downward, so top < bottom.
+export interface WallSection {
+  top: number;
+  bottom: number;
+  angle: number;
+}
+
+// Physics takes either one angle for the whole wall or the angle at a given height
+export type WallAngle = number | ((y: number) => number);
+
+// How a climb has to begin: from standing, sitting on the pad, or established on the start holds
+export type StartRule = 'standing' | 'sit' | 'designated';
+
+// What counts as topping: one hand on the finish, both hands on it, or pulling over the top
+export type FinishRule = 'touch' | 'match' | 'topOut';
+
+// One problem set on a shared wall, like a tape color in a gym circuit
+export interface Problem {
+  id: string;
+  name: string;
+  grade: string;
+  color?: string; // Every hold of this color is on the problem
+  holdIds?: string[]; // Or exactly these holds; wins over color when set
+  startHoldIds: string[];
+  finishHoldIds: string[];
 }
 
 export interface Level {
@@ -25,8 +75,15 @@ export interface Level {
   author: string;
   holds: Hold[];
   difficulty: string;
-  angle: number; // Negative = Slab, 0 = Vertical, >0 = Overhang
+  angle: number; // Negative = Slab, 0 = Vertical, >0 = Overhang. Applies wherever no section does.
+  sections?: WallSection[]; // Changes of angle up the wall
   height?: number; // Default 100. Sport routes > 100.
+  seed?: number; // Procedural routes: same seed -> same holds
+  crashPads?: CrashPad[]; // Default: DEFAULT_CRASH_PADS
+  bolts?: Bolt[]; // Sport routes: protection for lead climbing
+  problems?: Problem[]; // Several problems on one wall; without them the whole wall is one route
+  startRule?: StartRule; // Default 'standing'
+  finishRule?: FinishRule; // Default 'match'
 }
 
 export type Limb = 'leftHand' | 'rightHand' | 'leftFoot' | 'rightFoot';
@@ -40,9 +97,18 @@ export interface ClimberState {
   armPump: { left: number; right: number }; // 0-100, 100 = failure
   chalk: number; // 0-100
   balance: number; // 0-100 (0 = perfect, 100 = fall)
-  status: 'idle' | 'climbing' | 'falling' | 'topped';
+  status: 'idle' | 'climbing' | 'falling' | 'topped' | 'decked'; // decked: a free solo fall hit the ground, the attempt is over
   centerOfMass: Point;
   velocity: Point; // dx, dy per frame
+  airborne?: boolean; // Mid-dyno: ballistic flight with every limb off
+  fallStartY?: number; // COM height the current fall started from
+  clips?: string[]; // Bolt ids the rope runs through, in the order they were clipped
+  hanging?: boolean; // Caught by the rope, weighting it until a hand grabs a hold
+  problemId?: string; // Problem being attempted; missing means every hold counts
+  offRouteHoldIds?: string[]; // Holds off the problem that a limb used: a rules violation
+  startEstablished?: boolean; // Sit and designated starts: both hands on the start holds, feet off the floor
+  invalidStart?: boolean; // Moved on before establishing the start the rules ask for
+  mantle?: number; // Top-outs: progress over the lip, 0 (chest at the lip) to 1 (standing on top)
 }
 
 export interface SimulationConfig {
@@ -50,3 +116,196 @@ export interface SimulationConfig {
   gravity: number;
   reachRadius: number; // percentage of wall height
 }
+
+// --- Climber Body ---
+
+// What the player edits, in real-world units
+export interface ClimberProfile {
+  id: string;
+  name: string;
+  heightCm: number;
+  apeIndexCm: number; // Wingspan minus height
+  legLengthCm: number; // Inseam
+  weightKg: number;
+}
+
+// The profile scaled into wall units, as the physics and avatar use it
+export interface ClimberBody {
+  torsoHeight: number;
+  shoulderWidth: number;
+  hipWidth: number;
+  armUpper: number;
+  armLower: number;
+  legUpper: number;
+  legLower: number;
+  headRadius: number;
+  maxReach: { hand: number; foot: number };
+  weightKg: number;
+}
+
+// --- Headless Simulation ---
+
+export interface SimulationState {
+  climber: ClimberState;
+  prevCOM: Point; // COM at the previous step, used to derive velocity
+  tickAccumulator: number; // ms accumulated towards the next stamina/balance tick
+}
+
+export interface SimulationInputs {
+  isUserDragging: boolean; // Physics is suspended while the player holds the body or a limb
+}
+
+// How a sport route is protected. Boulders have no rope, only pads.
+export type ProtectionMode = 'freeSolo' | 'topRope' | 'lead';
+
+export interface SimulationSettings {
+  realismMode: boolean;
+  infiniteStamina: boolean;
+  body?: ClimberBody; // Defaults to the reference climber
+  protection?: ProtectionMode; // Sport routes only; missing behaves like lead
+}
+
+// From best to worst; off-pad landings and high falls move down the list. A free solo fall is always fatal.
+export type LandingOutcome = 'clean' | 'hard' | 'rolledAnkle' | 'injured' | 'fatal';
+
+export interface LandingReport {
+  outcome: LandingOutcome;
+  fallHeight: number; // From the highest point of the fall to standing height
+  onPad: boolean;
+}
+
+export type FallCause = 'balance' | 'stamina' | 'unsupported';
+
+export type SimulationEvent =
+  | { type: 'slip'; slipping: boolean }
+  | { type: 'tick'; balance: number; frictionPenalty: number }
+  | { type: 'limbDetached'; limb: Limb; cause: 'overreach' | 'pump' }
+  | { type: 'fall'; cause: FallCause }
+  | { type: 'caught'; limb: Limb; holdId: string } // Deadpoint catch at the top of a dyno
+  | { type: 'ropeCaught'; boltId: string | null; fallDistance: number } // Held by the rope; null boltId is the top-rope anchor
+  | ({ type: 'landed' } & LandingReport);
+
+export interface StepResult {
+  state: SimulationState;
+  events: SimulationEvent[];
+}
+
+// --- Replays ---
+
+// Everything the player can do that changes the climb. Live play and replay playback
+// both go through the same reducer, so a log of these re-creates the attempt exactly.
+export type ClimbInput =
+  | { kind: 'limb'; limb: Limb; target: AttachedLimb | Point | null }
+  | { kind: 'com'; com: Point }
+  | { kind: 'chalk' }
+  | { kind: 'clip'; boltId: string }
+  | { kind: 'dyno'; charge: number; aim: Point } // charge 0-1, aim is a direction from the COM
+  | { kind: 'drag'; dragging: boolean }
+  | { kind: 'settings'; settings: SimulationSettings };
+
+export interface ReplayEntry {
+  step: number; // Simulation steps since recording started
+  input: ClimbInput;
+}
+
+export interface ReplayOutcome {
+  step: number;
+  event: SimulationEvent;
+}
+
+export type AttemptResult = 'topped' | 'fell' | 'reset';
+
+export interface ReplayLog {
+  id: string;
+  levelKey: string; // Level id, plus seed and problem (see getLevelKey)
+  level: Level; // Snapshot, so edits to the route don't break old replays
+  recordedAt: number; // epoch ms
+  initial: SimulationState;
+  settings: SimulationSettings; // At the start of the recording
+  entries: ReplayEntry[];
+  outcomes: ReplayOutcome[];
+  totalSteps: number;
+  result?: AttemptResult;
+  offRouteHoldIds?: string[]; // Rules violations during the attempt
+  invalidStart?: boolean;
+}
+
+// --- Attempt Log ---
+
+export interface AttemptRecord {
+  id: string;
+  levelKey: string; // Level id, plus seed and problem (see getLevelKey)
+  startedAt: number; // epoch ms, when the climber left the ground
+  result: AttemptResult;
+  durationMs: number;
+  highPoint: number; // Lowest centerOfMass.y reached; y grows downwards
+  stamina: number; // At the end of the attempt
+  armPump: { left: number; right: number };
+  realismMode: boolean; // On for the whole attempt
+  infiniteStamina: boolean; // On at any point: the attempt can't be a send
+  offRoute?: boolean;
+  invalidStart?: boolean;
+  weightedRope?: boolean; // Hung on the rope after a fall and climbed on
+}
+
+// How a topped attempt counts: first try, first send after failing, or any send after that
+export type SendStyle = 'flash' | 'send' | 'repeat';
+
+export interface AttemptStats {
+  attempts: number;
+  sends: number; // Every top that counts, repeats included
+  repeats: number;
+  firstSend: { style: 'flash' | 'send'; attempt: number } | null; // attempt is 1-based
+  bestHighPoint: number | null;
+}
+
+// --- Ghosts ---
+
+export interface GhostFrame {
+  t: number; // ms since the climber left the ground
+  centerOfMass: Point;
+  limbs: ClimberState['limbs'];
+}
+
+export interface GhostTrace {
+  levelKey: string;
+  recordedAt: number;
+  durationMs: number;
+  frames: GhostFrame[];
+  splits: number[]; // ms at which each height milestone was first reached
+  body?: ClimberBody; // Profile the send was climbed with
+}
+
+// --- Beta Solver ---
+
+export interface BetaMove {
+  limb: Limb;
+  holdId: string;
+  centerOfMass: Point; // Body position after the move
+  stamina: number;
+  armPump: { left: number; right: number };
+  balance: number;
+  restMs?: number; // Shaking out in this position before the next move
+}
+
+export type BetaResult =
+  | { solvable: true; moves: BetaMove[]; explored: number }
+  | { solvable: false; reason: string; explored: number; highPoint: number; exhausted: boolean }; // exhausted: search budget ran out, so not proven unsolvable
+
+// --- Grading ---
+
+export interface GradeEstimate {
+  grade: string; // 'V4' or '5.11b'
+  scale: 'V' | 'YDS';
+  score: number; // Raw difficulty score the grade is read from
+  confidence: number; // 0-1
+}
+
+// --- Route Linting ---
+
+export interface LintIssue {
+  id: string; // Stable per check + holds, used as a React key and for selection
+  severity: 'error' | 'warning';
+  message: string;
+  holdIds: string[]; // Offending holds, highlighted on the wall
+}
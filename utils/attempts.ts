@@ -0,0 +1,86 @@
+import { AttemptRecord, AttemptResult, AttemptStats, ClimberState, SendStyle, SimulationSettings } from '../types';
+import { createId } from './random';
+
+// Attempts are logged per route, oldest first, from the moment the climber leaves the
+// ground until they top, land or reset. A top only counts as a send when it was climbed
+// by the rules with finite stamina and without weighting the rope; the others are still
+// attempts, so they spoil a flash.
+
+// The attempt in progress
+export interface AttemptTracker {
+    levelKey: string;
+    startedAt: number;
+    highPoint: number;
+    realismMode: boolean;
+    infiniteStamina: boolean;
+    weightedRope: boolean; // The rope caught a fall: the climb carries on, but it's no longer clean
+}
+
+export const startAttempt = (levelKey: string, climber: ClimberState, settings: SimulationSettings): AttemptTracker => ({
+    levelKey,
+    startedAt: Date.now(),
+    highPoint: climber.centerOfMass.y,
+    realismMode: settings.realismMode,
+    infiniteStamina: settings.infiniteStamina,
+    weightedRope: false
+});
+
+// Settings can change mid-attempt: realism has to stay on throughout, infinite stamina
+// taints the attempt once used
+export const updateAttempt = (tracker: AttemptTracker, climber: ClimberState, settings: SimulationSettings): AttemptTracker => ({
+    ...tracker,
+    highPoint: Math.min(tracker.highPoint, climber.centerOfMass.y),
+    realismMode: tracker.realismMode && settings.realismMode,
+    infiniteStamina: tracker.infiniteStamina || settings.infiniteStamina
+});
+
+export const weightRope = (tracker: AttemptTracker): AttemptTracker => ({ ...tracker, weightedRope: true });
+
+export const finishAttempt = (tracker: AttemptTracker, result: AttemptResult, climber: ClimberState, durationMs: number): AttemptRecord => ({
+    id: createId(),
+    levelKey: tracker.levelKey,
+    startedAt: tracker.startedAt,
+    result,
+    durationMs: Math.round(durationMs),
+    highPoint: Math.round(Math.min(tracker.highPoint, climber.centerOfMass.y) * 10) / 10,
+    stamina: Math.round(climber.stamina),
+    armPump: { left: Math.round(climber.armPump.left), right: Math.round(climber.armPump.right) },
+    realismMode: tracker.realismMode,
+    infiniteStamina: tracker.infiniteStamina,
+    ...(climber.offRouteHoldIds?.length ? { offRoute: true } : {}),
+    ...(climber.invalidStart ? { invalidStart: true } : {}),
+    ...(tracker.weightedRope ? { weightedRope: true } : {})
+});
+
+export const addAttempt = (log: Record<string, AttemptRecord[]>, attempt: AttemptRecord): Record<string, AttemptRecord[]> => ({
+    ...log,
+    [attempt.levelKey]: [...(log[attempt.levelKey] || []), attempt]
+});
+
+// --- Stats ---
+
+export const isSend = (attempt: AttemptRecord) =>
+    attempt.result === 'topped' && !attempt.infiniteStamina && !attempt.offRoute && !attempt.invalidStart && !attempt.weightedRope;
+
+// Style of each attempt in order, null for the ones that aren't sends
+export const getSendStyles = (attempts: AttemptRecord[]): (SendStyle | null)[] => {
+    let sent = false;
+    return attempts.map((attempt, i) => {
+        if (!isSend(attempt)) return null;
+        const style: SendStyle = sent ? 'repeat' : i === 0 ? 'flash' : 'send';
+        sent = true;
+        return style;
+    });
+};
+
+export const getAttemptStats = (attempts: AttemptRecord[]): AttemptStats => {
+    const styles = getSendStyles(attempts);
+    const first = styles.findIndex(style => style !== null);
+    return {
+        attempts: attempts.length,
+        sends: styles.filter(style => style !== null).length,
+        repeats: styles.filter(style => style === 'repeat').length,
+        firstSend: first === -1 ? null : { style: styles[first] === 'flash' ? 'flash' : 'send', attempt: first + 1 },
+        bestHighPoint: attempts.length > 0 ? Math.min(...attempts.map(a => a.highPoint)) : null
+    };
+};
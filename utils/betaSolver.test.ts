@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { SAMPLE_LEVELS } from '../constants';
+import { solveRoute } from './betaSolver';
+
+// The solver only moves one limb at a time; these routes are set to need a dyno
+const DYNO_LEVELS = ['lvl12'];
+
+// The shipped routes are the yardstick: a checker that fails them can't vet anyone else's
+describe('solveRoute', () => {
+    SAMPLE_LEVELS.filter(level => !DYNO_LEVELS.includes(level.id)).forEach(level => {
+        const problems = level.problems?.map(p => p.id) ?? [undefined];
+        problems.forEach(problemId => {
+            it(`finds beta for ${level.id}${problemId ? `/${problemId}` : ''}`, () => {
+                const result = solveRoute(level, { problemId });
+                expect(result.solvable, 'reason' in result ? result.reason : '').toBe(true);
+            });
+        });
+    });
+
+    it('finds no static beta for the dyno levels', () => {
+        SAMPLE_LEVELS.filter(level => DYNO_LEVELS.includes(level.id)).forEach(level => {
+            const result = solveRoute(level);
+            expect(result.solvable, level.id).toBe(false);
+            expect('exhausted' in result && result.exhausted, level.id).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,328 @@
+import { AttachedLimb, BetaMove, BetaResult, ClimberBody, ClimberState, Hold, Level, Limb, Point } from '../types';
+import { HOLD_STAMINA_DRAIN, INITIAL_STAMINA, INITIAL_CHALK } from '../constants';
+import { calculateTickDrain, calculateStability, constrainBodyPosition, isAttached, isReachable, getHoldRejection } from './gameUtils';
+import { getGroundY, getStartCom, getStartLimbs } from './simulation';
+import { DEFAULT_BODY, getLimbAnchor, getLimbAnchorOffset, getLimbReach } from './body';
+import { getWallAngleFn, getWallProfile, hasMultipleAngles } from './wall';
+import { getProblem, getProblemHolds, isFinishHold, isStartHold } from './problems';
+import { getStartRule, isFinishReached, isStartPosition } from './rules';
+import { getLipHold, isOnLip } from './topOut';
+
+// Best-first search over limb placements. Each node is a static position on the wall;
+// each edge moves one limb to a hold. A move is allowed when the body can be placed so
+// every limb is within reach, the position stays below the fall threshold, and the
+// stamina/pump spent holding it while the limb travels doesn't run out. On jugs and other
+// positions where the arms recover, the climber may stop to shake out first.
+
+const MAX_EXPANSIONS = 4000;
+
+// Game ticks (100ms) spent in each position: shifting the body, then moving the limb. Play
+// doesn't drain while a limb is being dragged, so a second each way is on the safe side.
+const TICKS_PER_MOVE = 10;
+
+// A position where both arms recover is a rest: the climber shakes out there until the
+// pump is gone, up to this many ticks, as long as it leaves this much stamina in hand
+const MAX_REST_TICKS = 300;
+const REST_STAMINA_RESERVE = 20;
+
+// Mirrors the auto-detach tolerance in the simulation
+const REACH_TOLERANCE = 1.05;
+
+const LIMBS: Limb[] = ['leftHand', 'rightHand', 'leftFoot', 'rightFoot'];
+
+const isHand = (limb: Limb) => limb === 'leftHand' || limb === 'rightHand';
+
+interface Resources { stamina: number; armPump: { left: number; right: number } }
+
+interface SearchNode {
+    limbs: ClimberState['limbs'];
+    com: Point;
+    stamina: number;
+    armPump: { left: number; right: number };
+    balance: number;
+    started: boolean; // Sit and designated starts: established on the start holds
+    moves: BetaMove[];
+    priority: number;
+}
+
+interface SolverOptions {
+    realismMode?: boolean;
+    body?: ClimberBody;
+    problemId?: string | null; // Circuit walls: solve this problem using only its holds
+}
+
+// A natural body position for a set of limbs: hang below the hands, stand above the feet
+const guessBodyPosition = (body: ClimberBody, limbs: ClimberState['limbs'], fallback: Point): Point => {
+    const guesses: Point[] = [];
+    LIMBS.forEach(limb => {
+        const val = limbs[limb];
+        if (!val) return;
+        const anchor = getLimbAnchorOffset(body, limb);
+        const reach = getLimbReach(body, limb) * 0.7;
+        guesses.push({ x: val.x - anchor.x, y: isHand(limb) ? val.y - anchor.y + reach : val.y - anchor.y - reach });
+    });
+    if (guesses.length === 0) return fallback;
+    return {
+        x: guesses.reduce((s, p) => s + p.x, 0) / guesses.length,
+        y: guesses.reduce((s, p) => s + p.y, 0) / guesses.length,
+    };
+};
+
+const allWithinReach = (body: ClimberBody, com: Point, limbs: ClimberState['limbs']) =>
+    LIMBS.every(limb => {
+        const val = limbs[limb];
+        return !val || isReachable(getLimbAnchor(body, com, limb), val, getLimbReach(body, limb) * REACH_TOLERANCE);
+    });
+
+const toClimberState = (limbs: ClimberState['limbs'], com: Point, node: Resources & { balance: number }): ClimberState => ({
+    limbs,
+    stamina: node.stamina,
+    armPump: node.armPump,
+    chalk: INITIAL_CHALK,
+    balance: node.balance,
+    status: 'climbing',
+    centerOfMass: com,
+    velocity: { x: 0, y: 0 }
+});
+
+const stateKey = (limbs: ClimberState['limbs'], started: boolean) =>
+    LIMBS.map(limb => {
+        const val = limbs[limb];
+        if (isAttached(val)) return val.holdId;
+        return val ? 'g' : '-';
+    }).join('|') + (started ? '' : '|*');
+
+// A position is worth re-expanding when it's reached with clearly more left in the tank
+// than every earlier visit: a pumped first arrival mustn't shut out a fresher sequence
+const RESOURCE_MARGIN = 5;
+
+const isDominated = (seen: Resources[], next: Resources) =>
+    seen.some(r => r.stamina + RESOURCE_MARGIN >= next.stamina
+        && r.armPump.left - RESOURCE_MARGIN <= next.armPump.left
+        && r.armPump.right - RESOURCE_MARGIN <= next.armPump.right);
+
+// Open list: a binary min-heap on priority. Ties go to the node queued first, so the
+// search expands in the same order a sorted list would.
+const createOpenList = () => {
+    const heap: { node: SearchNode; order: number }[] = [];
+    let queued = 0;
+    const before = (i: number, j: number) =>
+        heap[i].node.priority < heap[j].node.priority || (heap[i].node.priority === heap[j].node.priority && heap[i].order < heap[j].order);
+    const swap = (i: number, j: number) => { [heap[i], heap[j]] = [heap[j], heap[i]]; };
+
+    const push = (node: SearchNode) => {
+        heap.push({ node, order: queued++ });
+        let i = heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!before(i, parent)) break;
+            swap(i, parent);
+            i = parent;
+        }
+    };
+
+    const pop = (): SearchNode | undefined => {
+        const top = heap[0];
+        const last = heap.pop();
+        if (heap.length > 0 && last) {
+            heap[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let first = i;
+                if (left < heap.length && before(left, first)) first = left;
+                if (right < heap.length && before(right, first)) first = right;
+                if (first === i) break;
+                swap(i, first);
+                i = first;
+            }
+        }
+        return top?.node;
+    };
+
+    return { push, pop, get size() { return heap.length; } };
+};
+
+// Sets up a search; the returned function expands up to `budget` more positions and
+// gives the result once there is one, null while it's still going
+const createSearch = (level: Level, options: SolverOptions): ((budget: number) => BetaResult | null) => {
+    const realismMode = options.realismMode ?? false;
+    const body = options.body ?? DEFAULT_BODY;
+    const wallAngle = getWallAngleFn(level);
+    const problem = getProblem(level, options.problemId);
+    // Top-outs finish with both palms on the lip; the mantle itself is left to the player
+    const lip = getLipHold(level);
+    const isFinish = (hold: Hold) => lip ? hold.id === lip.id : isFinishHold(problem, hold);
+    const holds = lip ? [...getProblemHolds(level, problem), lip] : getProblemHolds(level, problem);
+    const groundY = getGroundY(level);
+    const needsStart = getStartRule(level) !== 'standing';
+    const isTopped = (node: SearchNode) => node.started && (lip
+        ? isOnLip(node.limbs.leftHand) && isOnLip(node.limbs.rightHand)
+        : isFinishReached(node.limbs, level, problem));
+
+    const finishHolds = holds.filter(isFinish);
+    if (finishHolds.length === 0) {
+        return () => ({ solvable: false, reason: 'Route has no finish hold.', explored: 0, highPoint: 0, exhausted: false });
+    }
+    const finishY = Math.min(...finishHolds.map(h => h.y));
+
+    const isGrounded = (com: Point) => com.y >= groundY - 16;
+
+    const priorityOf = (limbs: ClimberState['limbs'], movesCount: number, pump: { left: number; right: number }) => {
+        const handYs = [limbs.leftHand, limbs.rightHand].filter(isAttached).map(h => h.y);
+        const highestHand = handYs.length > 0 ? Math.min(...handYs) : groundY;
+        // Remaining height in arm spans dominates; pump breaks ties towards fresher sequences
+        return movesCount + 3 * Math.max(0, highestHand - finishY) / body.maxReach.hand + (pump.left + pump.right) / 200;
+    };
+
+    const start: SearchNode = {
+        limbs: getStartLimbs(level),
+        com: getStartCom(level),
+        stamina: INITIAL_STAMINA,
+        armPump: { left: 0, right: 0 },
+        balance: 0,
+        started: !needsStart,
+        moves: [],
+        priority: 0
+    };
+
+    const open = createOpenList();
+    open.push(start);
+    const visited = new Map<string, Resources[]>([[stateKey(start.limbs, start.started), [start]]]);
+    let explored = 0;
+    let highPoint = 0;
+
+    // Holds the position for TICKS_PER_MOVE ticks. Returns null if the climber falls or pumps out.
+    const hold = (node: SearchNode, limbs: ClimberState['limbs'], com: Point) => {
+        // Standing on the pad is a rest, same as in play
+        if (isGrounded(com)) {
+            return { stamina: Math.min(100, node.stamina + 0.5 * TICKS_PER_MOVE), armPump: { left: 0, right: 0 }, balance: 0 };
+        }
+
+        const probe = toClimberState(limbs, com, node);
+        const balance = calculateStability(probe, holds, wallAngle, realismMode);
+        if (balance >= 100) return null;
+
+        const handsOn = [limbs.leftHand, limbs.rightHand].filter(isAttached).length;
+        if (handsOn === 0) return null;
+
+        const drain = calculateTickDrain({ ...probe, balance }, holds, HOLD_STAMINA_DRAIN, wallAngle, realismMode, body);
+        const stamina = node.stamina - drain.core * TICKS_PER_MOVE;
+        const armPump = {
+            left: Math.max(0, node.armPump.left + drain.leftPump * TICKS_PER_MOVE),
+            right: Math.max(0, node.armPump.right + drain.rightPump * TICKS_PER_MOVE)
+        };
+        if (stamina <= 0 || armPump.left >= 100 || armPump.right >= 100) return null;
+        return { stamina, armPump, balance };
+    };
+
+    // Shaking out in a rest position, as in play, where hanging on jugs lets the arms recover.
+    // Returns null where there's no rest to be had.
+    const shakeOut = (held: Resources & { balance: number }, limbs: ClimberState['limbs'], com: Point) => {
+        if (isGrounded(com)) return null;
+        const drain = calculateTickDrain(toClimberState(limbs, com, held), holds, HOLD_STAMINA_DRAIN, wallAngle, realismMode, body);
+        if (drain.leftPump >= 0 || drain.rightPump >= 0) return null;
+
+        const untilRecovered = Math.max(held.armPump.left / -drain.leftPump, held.armPump.right / -drain.rightPump);
+        const affordable = drain.core > 0 ? (held.stamina - REST_STAMINA_RESERVE) / drain.core : MAX_REST_TICKS;
+        const restTicks = Math.floor(Math.min(MAX_REST_TICKS, untilRecovered, affordable));
+        if (restTicks <= 0) return null;
+        return {
+            stamina: held.stamina - drain.core * restTicks,
+            armPump: {
+                left: Math.max(0, held.armPump.left + drain.leftPump * restTicks),
+                right: Math.max(0, held.armPump.right + drain.rightPump * restTicks)
+            },
+            balance: held.balance,
+            restTicks
+        };
+    };
+
+    return (budget: number) => {
+        const stopAt = explored + budget;
+
+        while (open.size > 0 && explored < MAX_EXPANSIONS) {
+            if (explored >= stopAt) return null;
+            const node = open.pop()!;
+            explored++;
+
+            if (isTopped(node)) {
+                return { solvable: true, moves: node.moves, explored };
+            }
+
+            LIMBS.forEach(limb => {
+                const current = node.limbs[limb];
+                const reach = getLimbReach(body, limb);
+
+                // While the limb travels, the other three hold the body where it is
+                const transitionLimbs = { ...node.limbs, [limb]: null };
+                const transition = hold(node, transitionLimbs, node.com);
+                if (!transition) return;
+                const afterTransition = { ...node, ...transition };
+
+                holds.forEach(target => {
+                    if (isAttached(current) && current.holdId === target.id) return;
+                    if (getHoldRejection(node.limbs, limb, target)) return;
+                    if (target === lip && !isHand(limb)) return;
+                    // Until the start is established, hands only go to the start holds
+                    if (!node.started && isHand(limb) && !isStartHold(problem, target)) return;
+                    // Hands can't be expected to reach further than an arm span plus a body shift
+                    if (!isReachable(getLimbAnchor(body, node.com, limb), target, reach * 2)) return;
+
+                    const placed: AttachedLimb = { holdId: target.id, x: target.x, y: target.y };
+                    const nextLimbs = { ...node.limbs, [limb]: placed };
+                    const started = node.started || isStartPosition(nextLimbs, level, problem, groundY);
+                    const key = stateKey(nextLimbs, started);
+
+                    const com = constrainBodyPosition(guessBodyPosition(body, nextLimbs, node.com), nextLimbs, holds, body);
+                    // Can't sink below standing height, the pad is in the way
+                    com.y = Math.min(com.y, groundY - 14);
+                    if (!allWithinReach(body, com, nextLimbs)) return;
+
+                    const held = hold(afterTransition, nextLimbs, com);
+                    if (!held) return;
+                    if (isHand(limb)) highPoint = Math.max(highPoint, groundY - target.y);
+
+                    // Resting costs stamina, so moving straight on stays an option
+                    const rested = shakeOut(held, nextLimbs, com);
+                    const variants: (typeof held & { restTicks?: number })[] = rested ? [held, rested] : [held];
+                    variants.forEach(({ restTicks, ...result }) => {
+                        const seen = visited.get(key) ?? [];
+                        if (isDominated(seen, result)) return;
+                        visited.set(key, [...seen.filter(r => !isDominated([result], r)), result]);
+
+                        const move: BetaMove = { limb, holdId: target.id, centerOfMass: com, ...result, ...(restTicks ? { restMs: restTicks * 100 } : {}) };
+                        const moves = [...node.moves, move];
+                        open.push({ limbs: nextLimbs, com, ...result, started, moves, priority: priorityOf(nextLimbs, moves.length, result.armPump) });
+                    });
+                });
+            });
+        }
+
+        const baseAngle = getWallProfile(level)[0].angle;
+        const angleText = hasMultipleAngles(level) ? 'multi-angle'
+            : baseAngle === 0 ? 'vertical' : baseAngle < 0 ? `${Math.abs(baseAngle)}° slab` : `${baseAngle}° overhang`;
+        const exhausted = explored >= MAX_EXPANSIONS;
+        const reason = exhausted
+            ? `No sequence found within ${MAX_EXPANSIONS} positions on the ${angleText} wall${realismMode ? ' (realism)' : ''}.`
+            : `Every sequence falls or pumps out before reaching the finish on the ${angleText} wall${realismMode ? ' (realism)' : ''}.`;
+
+        return { solvable: false, reason, explored, highPoint: Math.round(highPoint), exhausted };
+    };
+};
+
+export const solveRoute = (level: Level, options: SolverOptions = {}): BetaResult =>
+    createSearch(level, options)(Infinity)!;
+
+// Runs the search in slices, yielding between them so the page stays responsive
+const EXPANSIONS_PER_SLICE = 200;
+
+export const solveRouteAsync = async (level: Level, options: SolverOptions = {}): Promise<BetaResult> => {
+    const search = createSearch(level, options);
+    for (;;) {
+        const result = search(EXPANSIONS_PER_SLICE);
+        if (result) return result;
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+};
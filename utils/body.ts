@@ -0,0 +1,50 @@
+import { ClimberBody, ClimberProfile, Limb, Point } from '../types';
+import { ANATOMY, REFERENCE_PROFILE } from '../constants';
+
+// Scales ANATOMY by how the profile compares to the reference climber. Arms follow the
+// wingspan, legs the inseam, the torso whatever height is left over.
+export const getClimberBody = (profile: ClimberProfile): ClimberBody => {
+    const ref = REFERENCE_PROFILE;
+    const heightScale = profile.heightCm / ref.heightCm;
+    const armScale = (profile.heightCm + profile.apeIndexCm) / (ref.heightCm + ref.apeIndexCm);
+    const legScale = profile.legLengthCm / ref.legLengthCm;
+    const torsoScale = (profile.heightCm - profile.legLengthCm) / (ref.heightCm - ref.legLengthCm);
+
+    const armUpper = ANATOMY.armUpper * armScale;
+    const armLower = ANATOMY.armLower * armScale;
+    const legUpper = ANATOMY.legUpper * legScale;
+    const legLower = ANATOMY.legLower * legScale;
+
+    return {
+        torsoHeight: ANATOMY.torsoHeight * torsoScale,
+        shoulderWidth: ANATOMY.shoulderWidth * heightScale,
+        hipWidth: ANATOMY.hipWidth * heightScale,
+        armUpper,
+        armLower,
+        legUpper,
+        legLower,
+        headRadius: ANATOMY.headRadius * heightScale,
+        maxReach: { hand: armUpper + armLower, foot: legUpper + legLower },
+        weightKg: profile.weightKg,
+    };
+};
+
+export const DEFAULT_BODY = getClimberBody(REFERENCE_PROFILE);
+
+// Shoulder (hands) or hip (feet) the limb hangs from, relative to the center of mass
+export const getLimbAnchorOffset = (body: ClimberBody, limb: Limb): Point => {
+    switch (limb) {
+        case 'leftHand': return { x: -body.shoulderWidth / 2, y: -body.torsoHeight * 0.85 };
+        case 'rightHand': return { x: body.shoulderWidth / 2, y: -body.torsoHeight * 0.85 };
+        case 'leftFoot': return { x: -body.hipWidth / 2, y: 1.5 };
+        case 'rightFoot': return { x: body.hipWidth / 2, y: 1.5 };
+    }
+};
+
+export const getLimbAnchor = (body: ClimberBody, com: Point, limb: Limb): Point => {
+    const offset = getLimbAnchorOffset(body, limb);
+    return { x: com.x + offset.x, y: com.y + offset.y };
+};
+
+export const getLimbReach = (body: ClimberBody, limb: Limb) =>
+    limb === 'leftHand' || limb === 'rightHand' ? body.maxReach.hand : body.maxReach.foot;
@@ -1,6 +1,7 @@
 
-import { ClimberState, Hold, Point, Limb, AttachedLimb, HoldType } from '../types';
-import { SIMULATION_CONFIG, ANATOMY, MAX_REACH, HOLD_FRICTION } from '../constants';
+import { ClimberState, Hold, Point, Limb, AttachedLimb, HoldType, ClimberBody, HoldAttributes, FootEngagement, WallAngle } from '../types';
+import { SIMULATION_CONFIG, HOLD_FRICTION, HOLD_DEFAULT_ATTRIBUTES, HOLD_CAPACITY, HOLD_MATCH_PUMP, HAND_FOOT_MATCH } from '../constants';
+import { DEFAULT_BODY, getLimbAnchorOffset } from './body';
 
 // Type guard for AttachedLimb (On a hold)
 export const isAttached = (val: any): val is AttachedLimb => {
@@ -16,6 +17,96 @@ export const calculateDistance = (p1: Point, p2: Point): number => {
   return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
 };
 
+// The wall angle at height y, for walls given as one angle or as a profile
+export const getAngleAt = (wallAngle: WallAngle, y: number): number =>
+  typeof wallAngle === 'number' ? wallAngle : wallAngle(y);
+
+// --- Hold Attributes ---
+
+export const getHoldAttributes = (hold: Hold): HoldAttributes => {
+  const defaults = HOLD_DEFAULT_ATTRIBUTES[hold.type];
+  return {
+    edgeDepthMm: hold.edgeDepthMm ?? defaults.edgeDepthMm,
+    size: hold.size ?? defaults.size,
+    incutDeg: hold.incutDeg ?? defaults.incutDeg,
+  };
+};
+
+// Effort to hang this hold relative to a standard one of its type (1 = standard).
+// Depth dominates: a 6mm crimp is over twice the work of the 12mm default, a 20mm edge about half.
+export const getHoldGripFactor = (hold: Hold): number => {
+  const defaults = HOLD_DEFAULT_ATTRIBUTES[hold.type];
+  const { edgeDepthMm, size, incutDeg } = getHoldAttributes(hold);
+  const depthFactor = Math.pow(defaults.edgeDepthMm / Math.max(2, edgeDepthMm), 1.2);
+  const incutFactor = Math.max(0.5, Math.min(2, 1 - (incutDeg - defaults.incutDeg) / 60));
+  const sizeFactor = 1 / Math.sqrt(Math.max(0.25, size));
+  return depthFactor * incutFactor * sizeFactor;
+};
+
+// Foot friction. Shallow edges and sloping tops give the shoe less to stand on.
+export const getHoldFriction = (hold: Hold): number => {
+  const defaults = HOLD_DEFAULT_ATTRIBUTES[hold.type];
+  const { edgeDepthMm, incutDeg } = getHoldAttributes(hold);
+  const depthFactor = Math.pow(Math.max(2, edgeDepthMm) / defaults.edgeDepthMm, 0.3);
+  const incutFactor = 1 + (incutDeg - defaults.incutDeg) / 120;
+  return Math.max(0, Math.min(1.2, HOLD_FRICTION[hold.type] * depthFactor * incutFactor));
+};
+
+// Incut holds accept a wider range of pull directions; sloping ones punish anything off-axis
+export const getHoldPullTolerance = (hold: Hold): number => {
+  const { incutDeg } = getHoldAttributes(hold);
+  return Math.max(0.5, Math.min(1.5, 1 + (incutDeg - HOLD_DEFAULT_ATTRIBUTES[hold.type].incutDeg) / 90));
+};
+
+// How far from its center a dropped limb still lands on the hold
+export const getHoldSnapRadius = (hold: Hold): number => {
+  const base = hold.type === 'volume' ? 5 : hold.type === 'jug' ? 3 : 2;
+  return base * getHoldAttributes(hold).size;
+};
+
+// --- Hold Sharing ---
+
+const LIMBS: Limb[] = ['leftHand', 'rightHand', 'leftFoot', 'rightFoot'];
+
+export const getLimbsOnHold = (limbs: ClimberState['limbs'], holdId: string, except?: Limb): Limb[] =>
+  LIMBS.filter(limb => {
+    const val = limbs[limb];
+    return limb !== except && isAttached(val) && val.holdId === holdId;
+  });
+
+// Why `limb` can't go on `hold` right now, or null if it fits
+export const getHoldRejection = (limbs: ClimberState['limbs'], limb: Limb, hold: Hold): string | null => {
+  const occupants = getLimbsOnHold(limbs, hold.id, limb);
+  if (occupants.length + 1 > HOLD_CAPACITY[hold.type]) {
+    return `No room on the ${hold.type}`;
+  }
+  return null;
+};
+
+// --- Foot Hooks ---
+
+// How far (wall units) a hooked foot can sit below the hips before it slides off
+const HOOK_SLACK: Record<Exclude<FootEngagement, 'stand'>, number> = {
+  heel: 6,
+  toe: 10,
+};
+
+export const getFootEngagement = (val: AttachedLimb | Point | null): FootEngagement =>
+  isAttached(val) && val.engagement ? val.engagement : 'stand';
+
+// How well a hook is holding, 0-1. Hooks pull from at or above the hips; the further the
+// foot drops below them, the less they hold. Toe hooks tolerate a lower foot than heel hooks.
+export const getHookEffectiveness = (state: ClimberState, limb: 'leftFoot' | 'rightFoot'): number => {
+  const val = state.limbs[limb];
+  const engagement = getFootEngagement(val);
+  if (!isAttached(val) || engagement === 'stand') return 0;
+  const hipY = state.centerOfMass.y + 1.5;
+  return Math.max(0, Math.min(1, 1 - (val.y - hipY) / HOOK_SLACK[engagement]));
+};
+
+export const getTotalHookEffect = (state: ClimberState): number =>
+  getHookEffectiveness(state, 'leftFoot') + getHookEffectiveness(state, 'rightFoot');
+
 export const isReachable = (
   shoulderPoint: Point, 
   target: Point,
@@ -52,9 +143,13 @@ export const calculateTickDrain = (
   state: ClimberState,
   holds: Hold[],
   holdDrains: Record<string, number>,
-  wallAngle: number = 0,
-  realismMode: boolean = false
+  wallAngle: WallAngle = 0,
+  realismMode: boolean = false,
+  body: ClimberBody = DEFAULT_BODY
 ): DrainResult => {
+  // The body hangs off whatever the wall does at the hips; each arm off its own hold
+  const comAngle = getAngleAt(wallAngle, state.centerOfMass.y);
+
   let coreDrain = 0.005; // Base metabolism
   let leftPumpDelta = -0.02; // Recovery by default
   let rightPumpDelta = -0.02;
@@ -63,19 +158,33 @@ export const calculateTickDrain = (
   const activeLimbsCount = Object.values(state.limbs).filter(l => l !== null).length;
   if (activeLimbsCount === 0) return { core: 0, leftPump: -0.1, rightPump: -0.1 };
 
-  const loadFactor = SIMULATION_CONFIG.climberWeightKg / Math.max(1, activeLimbsCount); 
+  // Heavier climbers pay more for the same position, lighter ones less
+  const weightFactor = body.weightKg / SIMULATION_CONFIG.climberWeightKg;
   const instabilityCost = (state.balance / 100) * (realismMode ? 0.05 : 0.03); 
 
   // Angle Factor: Steeper = More Core Drain
   // Revised to be much more punishing on overhangs to account for "Muscle Activation" holding climber in place
-  const anglePenalty = wallAngle > 0 ? (wallAngle / 45) * 0.06 : 0; 
+  const anglePenalty = comAngle > 0 ? (comAngle / 45) * 0.06 : 0; 
   
-  coreDrain += anglePenalty;
+  coreDrain += anglePenalty * weightFactor;
   coreDrain += instabilityCost;
 
+  // Hooking is core work, but on overhangs a good hook takes weight off the arms
+  const hookEffect = getTotalHookEffect(state);
+  coreDrain += hookEffect * 0.01;
+
+  // Hand-foot matches fold the body up tight
+  (['leftFoot', 'rightFoot'] as const).forEach(foot => {
+      const val = state.limbs[foot];
+      if (isAttached(val) && getLimbsOnHold(state.limbs, val.holdId).some(l => l === 'leftHand' || l === 'rightHand')) {
+          coreDrain += HAND_FOOT_MATCH.core;
+      }
+  });
+  const hookRelief = comAngle > 0 ? Math.min(0.5, hookEffect * 0.3) : 0;
+
   // Feet cut (Campusing) logic
   const feetAttached = [state.limbs.leftFoot, state.limbs.rightFoot].filter(l => l !== null).length;
-  if (feetAttached === 0 && wallAngle > 0) {
+  if (feetAttached === 0 && comAngle > 0) {
       coreDrain += realismMode ? 0.25 : 0.15; // Massive drain for campusing overhangs
   }
 
@@ -87,8 +196,11 @@ export const calculateTickDrain = (
       const hold = holds.find(h => h.id === val.holdId);
       if (!hold) return 0;
 
-      // Base hold difficulty
-      let difficulty = holdDrains[hold.type] || 0.05;
+      const holdAngle = getAngleAt(wallAngle, hold.y);
+
+      // Base hold difficulty, scaled by how deep, big and incut this particular hold is
+      const gripFactor = getHoldGripFactor(hold);
+      let difficulty = (holdDrains[hold.type] || 0.05) * gripFactor;
 
       // Directional Pull Punishment in Realism Mode
       if (realismMode) {
@@ -107,18 +219,23 @@ export const calculateTickDrain = (
           }
       }
 
+      // Sharing the hold: a matched hand gets half the edge, a foot crowds it further
+      const sharing = getLimbsOnHold(state.limbs, hold.id, limb);
+      if (sharing.some(l => l === 'leftHand' || l === 'rightHand')) difficulty *= HOLD_MATCH_PUMP[hold.type];
+      if (sharing.some(l => l === 'leftFoot' || l === 'rightFoot')) difficulty *= HAND_FOOT_MATCH.pump;
+
       // Jugs and Start/Finish allow recovery if stability is good
-      if ((hold.type === 'jug' || hold.type === 'start' || hold.type === 'finish') && state.balance < 40 && wallAngle < 30) {
+      if ((hold.type === 'jug' || hold.type === 'start' || hold.type === 'finish') && gripFactor < 1.5 && state.balance < 40 && holdAngle < 30) {
           return -0.03; // Shake out
       }
 
       // Overhang Multiplier for arms
-      const overhangMult = wallAngle > 0 ? 1 + (wallAngle / 30) : 1.0;
+      const overhangMult = holdAngle > 0 ? 1 + (holdAngle / 30) : 1.0;
       
       // If feet are cut, arms take 100% load
       const footSupportMult = feetAttached === 0 ? 2.5 : 1.0;
 
-      return difficulty * overhangMult * footSupportMult * 0.8;
+      return difficulty * overhangMult * footSupportMult * weightFactor * (1 - hookRelief) * 0.8;
   };
 
   leftPumpDelta = calculateArmPump('leftHand', state.armPump.left);
@@ -134,10 +251,11 @@ export const calculateTickDrain = (
 export const getFrictionPenalty = (
     state: ClimberState, 
     holds: Hold[], 
-    wallAngle: number = 0, 
+    wallAngle: WallAngle = 0, 
     realismMode: boolean = false
 ): number => {
     let totalPenalty = 0;
+    const comAngle = getAngleAt(wallAngle, state.centerOfMass.y);
 
     // Chalk Factor: Low chalk = High slip risk
     const chalkPenalty = Math.max(0, (30 - state.chalk)) * (realismMode ? 0.8 : 0.5);
@@ -146,9 +264,8 @@ export const getFrictionPenalty = (
     const feet = [state.limbs.leftFoot, state.limbs.rightFoot].filter(l => l !== null);
     const hands = [state.limbs.leftHand, state.limbs.rightHand].filter(l => l !== null);
 
-    // Calculate Normal Force based on Angle
-    const rad = wallAngle * (Math.PI / 180);
-    const normalForceRatio = Math.cos(rad); // 1.0 at 0deg, 0.7 at 45deg, 0.0 at 90deg
+    // Normal Force based on the angle where the foot is: 1.0 at 0deg, 0.7 at 45deg, 0.0 at 90deg
+    const normalForceRatio = (angle: number) => Math.cos(angle * (Math.PI / 180));
     
     // 1. Analyze Feet Support
     if (feet.length === 0) {
@@ -156,29 +273,37 @@ export const getFrictionPenalty = (
         if (hands.length > 0) {
             // Campusing
             // Reduce base penalty for campusing to allow dynos
-            const noFeetPenaltyBase = wallAngle < 0 ? 150 : 30; 
-            const overhangCampusPenalty = Math.max(0, wallAngle - 10) * 0.8;
+            const noFeetPenaltyBase = comAngle < 0 ? 150 : 30; 
+            const overhangCampusPenalty = Math.max(0, comAngle - 10) * 0.8;
             totalPenalty += noFeetPenaltyBase + overhangCampusPenalty;
         }
     } else {
         // Check feet individually
-        feet.forEach(foot => {
+        (['leftFoot', 'rightFoot'] as const).forEach(limb => {
+            const foot = state.limbs[limb];
+            const footAngle = foot ? getAngleAt(wallAngle, foot.y) : comAngle;
             if (isAttached(foot)) {
                 // On Hold
                 const hold = holds.find(h => h.id === foot.holdId);
-                if (hold) {
-                    const friction = HOLD_FRICTION[hold.type] * (wallAngle < 0 ? 1.2 : normalForceRatio);
+                if (hold && getFootEngagement(foot) !== 'stand') {
+                    // Hooks grip by pulling against the hold, so steep walls don't cost them
+                    // normal force. They slip once the foot drops too far below the hips.
+                    const friction = getHoldFriction(hold);
+                    if (friction < 0.3) totalPenalty += (0.3 - friction) * 50;
+                    totalPenalty += (1 - getHookEffectiveness(state, limb)) * 15;
+                } else if (hold) {
+                    const friction = getHoldFriction(hold) * (footAngle < 0 ? 1.2 : normalForceRatio(footAngle));
                     if (friction < 0.3) totalPenalty += (0.3 - friction) * 50; 
                 }
             } else if (isSmearing(foot)) {
                 // Smearing logic 
-                if (wallAngle < 0) {
+                if (footAngle < 0) {
                     totalPenalty += 2; 
-                } else if (wallAngle <= 10) {
+                } else if (footAngle <= 10) {
                     totalPenalty += 10;
                 } else {
                     // Overhang smearing is bad, worse in realism
-                    totalPenalty += (realismMode ? 45 : 30) + (wallAngle * 1.5);
+                    totalPenalty += (realismMode ? 45 : 30) + (footAngle * 1.5);
                 }
             }
         });
@@ -242,6 +367,8 @@ export const getFrictionPenalty = (
                 break;
         }
 
+        tolerance = Math.min(180, tolerance * getHoldPullTolerance(hold));
+
         const diff = getAngleDiff(pullAngle, idealPullAngle);
         
         if (diff > tolerance) {
@@ -260,9 +387,10 @@ export const getFrictionPenalty = (
 export const calculateStability = (
     state: ClimberState, 
     holds: Hold[], 
-    wallAngle: number = 0,
+    wallAngle: WallAngle = 0,
     realismMode: boolean = false
 ): number => {
+    const comAngle = getAngleAt(wallAngle, state.centerOfMass.y);
     const activeLimbs = Object.values(state.limbs).filter(l => l !== null);
     if (activeLimbs.length === 0) return 0; 
     
@@ -299,7 +427,7 @@ export const calculateStability = (
     let deviation = Math.abs(systemCOM_X - supportX);
     
     // Overhang Penalty (Barn Door)
-    if (wallAngle > 0) {
+    if (comAngle > 0) {
         const hands = [state.limbs.leftHand, state.limbs.rightHand].filter(l => l !== null);
         const feet = [state.limbs.leftFoot, state.limbs.rightFoot].filter(l => l !== null);
         
@@ -312,18 +440,21 @@ export const calculateStability = (
             
             const isMovingSideways = Math.abs(state.velocity.x) > 0.1;
 
-            if (footSpread < 10 && isMovingSideways) {
+            // A hook pins the hips to the wall and stops the swing
+            const hookEffect = Math.min(1, getTotalHookEffect(state));
+
+            if (footSpread < 10 && isMovingSideways && hookEffect < 0.5) {
                 // BARN DOOR!
                 deviation *= realismMode ? 4.0 : 3.0; // Penalty
             }
             
             const swingDist = Math.abs(hand.x - systemCOM_X);
-            deviation += swingDist * (realismMode ? 2.0 : 1.5);
+            deviation += swingDist * (realismMode ? 2.0 : 1.5) * (1 - 0.6 * hookEffect);
         }
     }
     
     // Slab Mechanics
-    if (wallAngle < 0) {
+    if (comAngle < 0) {
         const feet = [state.limbs.leftFoot, state.limbs.rightFoot].filter(l => l !== null);
         if (feet.length > 0) {
             const avgFootX = feet.reduce((s, f) => s + f.x, 0) / feet.length;
@@ -337,7 +468,7 @@ export const calculateStability = (
     deviation *= dynamicFactor;
 
     const lateralVelocity = Math.abs(state.velocity.x);
-    const swingPenalty = lateralVelocity * (wallAngle > 0 ? 25.0 : 10.0);
+    const swingPenalty = lateralVelocity * (comAngle > 0 ? 25.0 : 10.0);
 
     const frictionPenalty = getFrictionPenalty(state, holds, wallAngle, realismMode);
     
@@ -349,22 +480,23 @@ export const calculateStability = (
 export const constrainBodyPosition = (
     proposedCOM: Point,
     limbs: ClimberState['limbs'],
-    holds: Hold[]
+    holds: Hold[],
+    body: ClimberBody = DEFAULT_BODY
 ): Point => {
     let result = { ...proposedCOM };
     const ITERATIONS = 4; 
     
-    const HAND_REACH = MAX_REACH.hand * 0.99;
-    const FOOT_REACH = MAX_REACH.foot * 0.99;
+    const HAND_REACH = body.maxReach.hand * 0.99;
+    const FOOT_REACH = body.maxReach.foot * 0.99;
     // Minimum distance required between limb anchor (shoulder/hip) and the limb end. 
     // Prevents "crunching" or "contortion" where the body overlaps the limb.
     const MIN_COMPRESSION = 3.0; 
 
     for (let i = 0; i < ITERATIONS; i++) {
-        if (limbs.leftHand) result = applyConstraint(result, limbs.leftHand, HAND_REACH, {x: -ANATOMY.shoulderWidth/2, y: -ANATOMY.torsoHeight * 0.85}, MIN_COMPRESSION);
-        if (limbs.rightHand) result = applyConstraint(result, limbs.rightHand, HAND_REACH, {x: ANATOMY.shoulderWidth/2, y: -ANATOMY.torsoHeight * 0.85}, MIN_COMPRESSION);
-        if (limbs.leftFoot) result = applyConstraint(result, limbs.leftFoot, FOOT_REACH, {x: -ANATOMY.hipWidth/2, y: 1.5}, MIN_COMPRESSION);
-        if (limbs.rightFoot) result = applyConstraint(result, limbs.rightFoot, FOOT_REACH, {x: ANATOMY.hipWidth/2, y: 1.5}, MIN_COMPRESSION);
+        if (limbs.leftHand) result = applyConstraint(result, limbs.leftHand, HAND_REACH, getLimbAnchorOffset(body, 'leftHand'), MIN_COMPRESSION);
+        if (limbs.rightHand) result = applyConstraint(result, limbs.rightHand, HAND_REACH, getLimbAnchorOffset(body, 'rightHand'), MIN_COMPRESSION);
+        if (limbs.leftFoot) result = applyConstraint(result, limbs.leftFoot, FOOT_REACH, getLimbAnchorOffset(body, 'leftFoot'), MIN_COMPRESSION);
+        if (limbs.rightFoot) result = applyConstraint(result, limbs.rightFoot, FOOT_REACH, getLimbAnchorOffset(body, 'rightFoot'), MIN_COMPRESSION);
     }
     return result;
 };
@@ -0,0 +1,103 @@
+import { ClimberState, GhostFrame, GhostTrace, Level, ReplayLog } from '../types';
+import { SIM_TIMESTEP_MS, getGroundY } from './simulation';
+import { simulateReplay } from './replay';
+
+// Ghost traces are sampled every few steps and interpolated on playback
+const GHOST_SAMPLE_STEPS = 4;
+
+// Ghosts are per route *and* per seed: a rerolled sport route is a different climb.
+// On a circuit wall, each problem has its own.
+export const getLevelKey = (level: Level, problemId?: string) =>
+    (level.seed !== undefined ? `${level.id}#${level.seed}` : level.id) + (problemId ? `/${problemId}` : '');
+
+// --- Height Milestones ---
+
+export const getAltitude = (level: Level, climber: ClimberState) => getGroundY(level) - climber.centerOfMass.y;
+
+// Evenly spaced altitudes between the standing start and the top hold
+export const getHeightMilestones = (level: Level): number[] => {
+    const groundY = getGroundY(level);
+    const topY = level.holds.length > 0 ? Math.min(...level.holds.map(h => h.y)) : 0;
+    const startAltitude = 14; // Standing COM height
+    const span = groundY - topY - startAltitude;
+    if (span <= 0) return [];
+
+    const spacing = groundY > 150 ? 25 : 10;
+    const milestones: number[] = [];
+    for (let alt = startAltitude + spacing; alt < startAltitude + span; alt += spacing) {
+        milestones.push(Math.round(alt));
+    }
+    return milestones;
+};
+
+// Appends the times for any milestones newly reached at `altitude`. Returns true if one was added.
+export const updateSplits = (splits: number[], milestones: number[], altitude: number, elapsedMs: number): boolean => {
+    let added = false;
+    while (splits.length < milestones.length && altitude >= milestones[splits.length]) {
+        splits.push(elapsedMs);
+        added = true;
+    }
+    return added;
+};
+
+// --- Traces ---
+
+// Re-simulates a successful send into a timed pose trace, starting when the climber left the ground
+export const buildGhostTrace = (log: ReplayLog, levelKey: string): GhostTrace | null => {
+    const milestones = getHeightMilestones(log.level);
+    const frames: GhostFrame[] = [];
+    const splits: number[] = [];
+    let startStep: number | null = null;
+    let lastStep = 0;
+
+    simulateReplay(log, (step, climber) => {
+        if (startStep === null) {
+            if (climber.status !== 'climbing') return;
+            startStep = step;
+        }
+        const t = (step - startStep) * SIM_TIMESTEP_MS;
+        lastStep = step;
+        updateSplits(splits, milestones, getAltitude(log.level, climber), t);
+        if ((step - startStep) % GHOST_SAMPLE_STEPS === 0 || climber.status === 'topped') {
+            frames.push({ t, centerOfMass: { ...climber.centerOfMass }, limbs: { ...climber.limbs } });
+        }
+    });
+
+    if (startStep === null || frames.length === 0) return null;
+
+    return {
+        levelKey,
+        recordedAt: log.recordedAt,
+        durationMs: (lastStep - startStep) * SIM_TIMESTEP_MS,
+        frames,
+        splits,
+        body: log.settings.body
+    };
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Pose at `elapsedMs`. The body is interpolated; limbs snap like they do in play.
+export const getGhostFrameAt = (trace: GhostTrace, elapsedMs: number): GhostFrame => {
+    const { frames } = trace;
+    if (elapsedMs <= frames[0].t) return frames[0];
+    const last = frames[frames.length - 1];
+    if (elapsedMs >= last.t) return last;
+
+    let lo = 0;
+    let hi = frames.length - 1;
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (frames[mid].t <= elapsedMs) lo = mid;
+        else hi = mid;
+    }
+
+    const a = frames[lo];
+    const b = frames[hi];
+    const f = (elapsedMs - a.t) / Math.max(1, b.t - a.t);
+    return {
+        t: elapsedMs,
+        centerOfMass: { x: lerp(a.centerOfMass.x, b.centerOfMass.x, f), y: lerp(a.centerOfMass.y, b.centerOfMass.y, f) },
+        limbs: a.limbs
+    };
+};
@@ -0,0 +1,108 @@
+import { GradeEstimate, Hold, Level } from '../types';
+import { MAX_REACH, HOLD_STAMINA_DRAIN, HOLD_FRICTION } from '../constants';
+import { calculateDistance, getHoldGripFactor } from './gameUtils';
+import { getGroundY } from './simulation';
+import { getWallProfile } from './wall';
+
+// Routes taller than this are graded as sport climbs (YDS), everything else as boulders (V-scale)
+export const SPORT_HEIGHT_THRESHOLD = 150;
+
+const V_GRADES = ['V0', 'V1', 'V2', 'V3', 'V4', 'V5', 'V6', 'V7', 'V8', 'V9', 'V10', 'V11', 'V12'];
+const YDS_GRADES = [
+    '5.6', '5.7', '5.8', '5.9',
+    '5.10a', '5.10b', '5.10c', '5.10d',
+    '5.11a', '5.11b', '5.11c', '5.11d',
+    '5.12a', '5.12b', '5.12c', '5.12d',
+    '5.13a', '5.13b', '5.13c', '5.13d',
+    '5.14a'
+];
+
+const MAX_DRAIN = Math.max(...Object.values(HOLD_STAMINA_DRAIN));
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+
+// How hard each hold is to hang on, 0 (jug) to 1 (standard crimp/sloper). Shallow or
+// sloping holds can go past 1.
+const holdHardness = (hold: Hold) =>
+    0.7 * (HOLD_STAMINA_DRAIN[hold.type] * getHoldGripFactor(hold) / MAX_DRAIN) + 0.3 * (1 - HOLD_FRICTION[hold.type]);
+
+// For every hold, the distance to the closest hold above it, in arm spans. That's the
+// shortest next move from there; the largest of these is the route's reach crux.
+const getMoveRatios = (holds: Hold[]): number[] =>
+    holds
+        .map(hold => {
+            const above = holds.filter(h => h.y < hold.y - 1);
+            if (above.length === 0) return null;
+            const nearest = Math.min(...above.map(h => calculateDistance(hold, h)));
+            return nearest / MAX_REACH.hand;
+        })
+        .filter((r): r is number => r !== null);
+
+export const estimateGrade = (level: Level): GradeEstimate => {
+    const groundY = getGroundY(level);
+    const isSport = groundY > SPORT_HEIGHT_THRESHOLD;
+    const scale = isSport ? YDS_GRADES : V_GRADES;
+
+    // Holds near the floor are footholds for the standing start, they don't grade the route
+    const handHolds = level.holds.filter(h => h.y < groundY - 15);
+    const footHolds = level.holds.filter(h => h.y >= groundY - 25);
+
+    if (handHolds.length < 2) {
+        return { grade: scale[0], scale: isSport ? 'YDS' : 'V', score: 0, confidence: 0.1 };
+    }
+
+    const hardness = mean(handHolds.filter(h => h.type !== 'start' && h.type !== 'finish').map(holdHardness));
+    const ratios = getMoveRatios(handHolds);
+    const avgReach = mean(ratios);
+    const cruxReach = ratios.length > 0 ? Math.max(...ratios) : 0;
+
+    // Overhangs load the arms; slabs are mostly footwork and balance. Walls that change
+    // angle are graded on the climbed part, weighted by how much of it each section is.
+    const steepnessOf = (angle: number) => angle > 0 ? angle / 45 : Math.abs(angle) / 40;
+    const climbedTop = Math.min(...handHolds.map(h => h.y));
+    const climbed = getWallProfile(level)
+        .map(s => ({ angle: s.angle, length: Math.min(s.bottom, groundY) - Math.max(s.top, climbedTop) }))
+        .filter(s => s.length > 0);
+    const climbedLength = climbed.reduce((sum, s) => sum + s.length, 0);
+    const steepness = climbedLength > 0
+        ? climbed.reduce((sum, s) => sum + steepnessOf(s.angle) * s.length, 0) / climbedLength
+        : steepnessOf(level.angle || 0);
+
+    // Typical set routes space holds a little over one arm span apart. Longer than that
+    // needs body movement; a crux near two spans needs a dyno.
+    const reachScore = 2.0 * clamp(avgReach - 1.2, 0, 1.5) + 2.0 * clamp(cruxReach - 1.8, 0, 2);
+
+    // Few footholds on steep ground means campusing
+    const footScore = footHolds.length === 0 ? 1 : footHolds.length === 1 ? 0.4 : 0;
+
+    let score = 3.0 * hardness + reachScore + 3.0 * steepness + footScore * (1 + Math.max(0, steepness));
+
+    if (isSport) {
+        // Endurance: sustained hard holds over a long route
+        const moves = Math.max(1, (groundY - Math.min(...handHolds.map(h => h.y))) / 15);
+        score += hardness * moves * 0.25 + moves * 0.1;
+    }
+
+    // The YDS scale has four letter grades per number, so it spreads the score wider
+    const index = clamp(Math.round(isSport ? score * 2.2 - 5 : score), 0, scale.length - 1);
+
+    // Confidence drops for sparse routes, routes without start/finish, and extreme scores
+    // the model was never calibrated against
+    let confidence = 0.45 + Math.min(0.35, handHolds.length * 0.04);
+    if (!level.holds.some(h => h.type === 'start')) confidence -= 0.15;
+    if (!level.holds.some(h => h.type === 'finish')) confidence -= 0.2;
+    if (cruxReach > 2.5) confidence -= 0.15; // Likely unclimbable rather than hard
+    if (index === scale.length - 1) confidence -= 0.1;
+
+    return {
+        grade: scale[index],
+        scale: isSport ? 'YDS' : 'V',
+        score: Math.round(score * 100) / 100,
+        confidence: Math.round(clamp(confidence, 0.05, 0.95) * 100) / 100
+    };
+};
+
+// Generated routes come without a grade; give them the estimate
+export const withEstimatedGrade = (level: Level): Level => ({ ...level, difficulty: estimateGrade(level).grade });
@@ -0,0 +1,49 @@
+import { Level } from '../types';
+
+// Editor undo/redo. Each edit stores the level as it was before, so undoing is a swap
+// rather than an inverse command, and clears or AI imports come back exactly.
+
+export const MAX_HISTORY = 100;
+
+// Repeated edits of the same kind this close together (dragging a slider) are one step
+const COALESCE_MS = 600;
+
+export interface HistoryEntry {
+    label: string; // What the edit did, for the toolbar ("Move holds")
+    level: Level; // The other side of the edit: before it on the undo stack, after it on redo
+    at: number; // epoch ms
+}
+
+export interface EditHistory {
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+export const recordEdit = (history: EditHistory, label: string, before: Level, coalesce: boolean = false, now: number = Date.now()): EditHistory => {
+    const last = history.past[history.past.length - 1];
+    if (coalesce && last && last.label === label && now - last.at < COALESCE_MS) {
+        // Same gesture: keep the state from before it started
+        return { past: [...history.past.slice(0, -1), { ...last, at: now }], future: [] };
+    }
+    return { past: [...history.past, { label, level: before, at: now }].slice(-MAX_HISTORY), future: [] };
+};
+
+export const undoEdit = (history: EditHistory, current: Level): { history: EditHistory; level: Level } | null => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return null;
+    return {
+        level: entry.level,
+        history: { past: history.past.slice(0, -1), future: [{ ...entry, level: current }, ...history.future] }
+    };
+};
+
+export const redoEdit = (history: EditHistory, current: Level): { history: EditHistory; level: Level } | null => {
+    const entry = history.future[0];
+    if (!entry) return null;
+    return {
+        level: entry.level,
+        history: { past: [...history.past, { ...entry, level: current }], future: history.future.slice(1) }
+    };
+};
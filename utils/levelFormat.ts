@@ -0,0 +1,300 @@
+import { HoldType, Level, StartRule, FinishRule } from '../types';
+import { HOLD_COLORS } from '../constants';
+import { withEstimatedGrade } from './grading';
+import { START_RULE_LABELS, FINISH_RULE_LABELS } from './rules';
+import { LIP_HOLD_ID } from './topOut';
+
+// Route files, as traded between players:
+//
+//   {
+//     "format": "ascent-level",
+//     "version": 1,
+//     "exportedAt": "2026-01-31T18:00:00.000Z",   // informational
+//     "level": {
+//       "id": "my-route",
+//       "name": "My Route",
+//       "author": "Sam",
+//       "difficulty": "V3",        // empty = estimate on import
+//       "angle": 15,               // degrees, -90 (slab) to 90 (roof)
+//       "height": 100,             // optional, wall height; default 100
+//       "sections": [{ "top": 0, "bottom": 30, "angle": 45 }],   // optional
+//       "seed": 42,                // optional, procedural routes only
+//       "startRule": "sit",        // optional: standing (default), sit, designated
+//       "finishRule": "topOut",    // optional: touch, match (default), topOut
+//       "crashPads": [{ "x": 10, "width": 30 }],                 // optional
+//       "bolts": [{ "id": "b1", "x": 60, "y": 120 }],            // optional
+//       "problems": [{ "id": "p1", "name": "Yellow", "grade": "V2", "color": "#facc15",
+//                      "startHoldIds": ["h1"], "finishHoldIds": ["h9"] }],  // optional;
+//                      // "holdIds": [...] instead of "color" lists the holds outright
+//       "holds": [{ "id": "h1", "x": 50, "y": 90, "type": "start", "rotation": 0,
+//                   "color": "#a855f7", "edgeDepthMm": 30, "size": 1, "incutDeg": 0 }]
+//     }
+//   }
+//
+// x runs 0-100 left to right, y runs 0-height top to bottom. Unknown fields are rejected
+// so a typo can't silently drop data. Changing the format means bumping
+// LEVEL_FORMAT_VERSION and adding a step to MIGRATIONS that upgrades the previous version.
+
+export const LEVEL_FORMAT = 'ascent-level';
+export const LEVEL_FORMAT_VERSION = 1;
+export const LEVEL_FILE_EXTENSION = '.ascent.json';
+
+export interface LevelFile {
+    format: typeof LEVEL_FORMAT;
+    version: number;
+    exportedAt: string;
+    level: Level;
+}
+
+export type LevelImportResult =
+    | { level: Level; migratedFrom: number | null }
+    | { errors: string[] };
+
+const HOLD_TYPES = Object.keys(HOLD_COLORS) as HoldType[];
+const START_RULES = Object.keys(START_RULE_LABELS) as StartRule[];
+const FINISH_RULES = Object.keys(FINISH_RULE_LABELS) as FinishRule[];
+
+const HEX_COLOR = /^#[0-9a-f]{3}([0-9a-f]{3})?$/i;
+
+// Each step takes a file of version N and returns one of version N + 1
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+    // Version 0: unversioned JSON from before this format, either a bare level or just
+    // its hold array (copied out of constants.ts or an AI response)
+    0: (data) => ({
+        format: LEVEL_FORMAT,
+        version: 1,
+        exportedAt: new Date(0).toISOString(),
+        level: Array.isArray(data)
+            ? { id: 'imported', name: 'Imported Route', author: 'Unknown', difficulty: '', angle: 0, holds: data }
+            : data
+    }),
+};
+
+// --- Export ---
+
+export const toLevelFile = (level: Level): LevelFile =>
+    ({ format: LEVEL_FORMAT, version: LEVEL_FORMAT_VERSION, exportedAt: new Date().toISOString(), level });
+
+export const serializeLevel = (level: Level): string => JSON.stringify(toLevelFile(level), null, 2);
+
+export const getLevelFileName = (level: Level) =>
+    (level.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'route') + LEVEL_FILE_EXTENSION;
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Collects every problem with a path, so one import attempt lists everything to fix
+const createChecker = () => {
+    const errors: string[] = [];
+
+    const fail = (path: string, message: string) => {
+        errors.push(`${path}: ${message}`);
+    };
+
+    const keys = (obj: Record<string, unknown>, allowed: string[], path: string) => {
+        Object.keys(obj).forEach(key => {
+            if (!allowed.includes(key)) fail(`${path}.${key}`, 'unknown field');
+        });
+    };
+
+    const string = (obj: Record<string, unknown>, key: string, path: string, { optional = false, nonEmpty = false } = {}) => {
+        const value = obj[key];
+        if (value === undefined && optional) return;
+        if (typeof value !== 'string') fail(`${path}.${key}`, 'must be a string');
+        else if (nonEmpty && value.trim() === '') fail(`${path}.${key}`, 'must not be empty');
+    };
+
+    const number = (obj: Record<string, unknown>, key: string, path: string, { optional = false, min = -Infinity, max = Infinity, integer = false } = {}) => {
+        const value = obj[key];
+        if (value === undefined && optional) return;
+        if (typeof value !== 'number' || !Number.isFinite(value)) fail(`${path}.${key}`, 'must be a number');
+        else if (integer && !Number.isInteger(value)) fail(`${path}.${key}`, 'must be a whole number');
+        else if (value < min || value > max) fail(`${path}.${key}`, `${value} is outside ${min} to ${max}`);
+    };
+
+    // Runs `check` on every item, or reports why the field isn't a list
+    const list = (obj: Record<string, unknown>, key: string, path: string, optional: boolean, check: (item: Record<string, unknown>, itemPath: string) => void) => {
+        const value = obj[key];
+        if (value === undefined && optional) return;
+        if (!Array.isArray(value)) {
+            fail(`${path}.${key}`, 'must be a list');
+            return;
+        }
+        value.forEach((item, i) => {
+            const itemPath = `${path}.${key}[${i}]`;
+            if (isObject(item)) check(item, itemPath);
+            else fail(itemPath, 'must be an object');
+        });
+    };
+
+    const oneOf = (obj: Record<string, unknown>, key: string, path: string, options: readonly string[], { optional = false } = {}) => {
+        const value = obj[key];
+        if (value === undefined && optional) return;
+        if (typeof value !== 'string' || !options.includes(value)) fail(`${path}.${key}`, `must be one of ${options.join(', ')}`);
+    };
+
+    // A list of hold ids that must all exist on the wall
+    const holdRefs = (obj: Record<string, unknown>, key: string, path: string, holdIds: unknown[], optional: boolean) => {
+        const value = obj[key];
+        if (value === undefined && optional) return;
+        if (!Array.isArray(value) || value.some(id => typeof id !== 'string')) {
+            fail(`${path}.${key}`, 'must be a list of hold ids');
+            return;
+        }
+        value.forEach(id => {
+            if (!holdIds.includes(id)) fail(`${path}.${key}`, `no hold with id "${id}"`);
+        });
+    };
+
+    const uniqueIds = (items: unknown, path: string) => {
+        if (!Array.isArray(items)) return;
+        const seen = new Set<string>();
+        items.forEach(item => {
+            const id = isObject(item) ? item.id : undefined;
+            if (typeof id !== 'string') return;
+            if (seen.has(id)) fail(path, `duplicate id "${id}"`);
+            seen.add(id);
+        });
+    };
+
+    return { errors, fail, keys, string, number, oneOf, list, holdRefs, uniqueIds };
+};
+
+type Checker = ReturnType<typeof createChecker>;
+
+const validateLevel = (level: Record<string, unknown>, c: Checker) => {
+    const path = 'level';
+    c.keys(level, ['id', 'name', 'author', 'difficulty', 'angle', 'height', 'sections', 'seed', 'startRule', 'finishRule', 'crashPads', 'bolts', 'problems', 'holds'], path);
+    c.string(level, 'id', path, { nonEmpty: true });
+    c.string(level, 'name', path, { nonEmpty: true });
+    c.string(level, 'author', path);
+    c.string(level, 'difficulty', path);
+    c.number(level, 'angle', path, { min: -90, max: 90 });
+    c.number(level, 'height', path, { optional: true, min: 20, max: 1000 });
+    c.number(level, 'seed', path, { optional: true, integer: true });
+    c.oneOf(level, 'startRule', path, START_RULES, { optional: true });
+    c.oneOf(level, 'finishRule', path, FINISH_RULES, { optional: true });
+
+    const height = typeof level.height === 'number' && Number.isFinite(level.height) ? level.height : 100;
+
+    c.list(level, 'holds', path, false, (hold, holdPath) => {
+        c.keys(hold, ['id', 'x', 'y', 'type', 'rotation', 'color', 'edgeDepthMm', 'size', 'incutDeg'], holdPath);
+        c.string(hold, 'id', holdPath, { nonEmpty: true });
+        if (hold.id === LIP_HOLD_ID) c.fail(`${holdPath}.id`, `"${LIP_HOLD_ID}" is reserved for the top of the wall`);
+        c.number(hold, 'x', holdPath, { min: 0, max: 100 });
+        c.number(hold, 'y', holdPath, { min: 0, max: height });
+        c.oneOf(hold, 'type', holdPath, HOLD_TYPES);
+        c.number(hold, 'rotation', holdPath);
+        c.string(hold, 'color', holdPath, { optional: true });
+        if (typeof hold.color === 'string' && !HEX_COLOR.test(hold.color)) c.fail(`${holdPath}.color`, 'must be a hex color like #ff8800');
+        c.number(hold, 'edgeDepthMm', holdPath, { optional: true, min: 1, max: 200 });
+        c.number(hold, 'size', holdPath, { optional: true, min: 0.1, max: 5 });
+        c.number(hold, 'incutDeg', holdPath, { optional: true, min: -90, max: 90 });
+    });
+    c.uniqueIds(level.holds, `${path}.holds`);
+
+    c.list(level, 'sections', path, true, (section, sectionPath) => {
+        c.keys(section, ['top', 'bottom', 'angle'], sectionPath);
+        c.number(section, 'top', sectionPath, { min: 0, max: height });
+        c.number(section, 'bottom', sectionPath, { min: 0, max: height });
+        c.number(section, 'angle', sectionPath, { min: -90, max: 90 });
+        if (typeof section.top === 'number' && typeof section.bottom === 'number' && section.top >= section.bottom) {
+            c.fail(sectionPath, 'top must be above (smaller than) bottom');
+        }
+    });
+
+    c.list(level, 'crashPads', path, true, (pad, padPath) => {
+        c.keys(pad, ['x', 'width'], padPath);
+        c.number(pad, 'x', padPath, { min: 0, max: 100 });
+        c.number(pad, 'width', padPath, { min: 1, max: 100 });
+    });
+
+    c.list(level, 'bolts', path, true, (bolt, boltPath) => {
+        c.keys(bolt, ['id', 'x', 'y'], boltPath);
+        c.string(bolt, 'id', boltPath, { nonEmpty: true });
+        c.number(bolt, 'x', boltPath, { min: 0, max: 100 });
+        c.number(bolt, 'y', boltPath, { min: 0, max: height });
+    });
+    c.uniqueIds(level.bolts, `${path}.bolts`);
+
+    const holdIds = Array.isArray(level.holds) ? level.holds.map((h: unknown) => isObject(h) ? h.id : undefined) : [];
+    c.list(level, 'problems', path, true, (problem, problemPath) => {
+        c.keys(problem, ['id', 'name', 'grade', 'color', 'holdIds', 'startHoldIds', 'finishHoldIds'], problemPath);
+        c.string(problem, 'id', problemPath, { nonEmpty: true });
+        c.string(problem, 'name', problemPath, { nonEmpty: true });
+        c.string(problem, 'grade', problemPath);
+        c.string(problem, 'color', problemPath, { optional: true });
+        if (typeof problem.color === 'string' && !HEX_COLOR.test(problem.color)) c.fail(`${problemPath}.color`, 'must be a hex color like #ff8800');
+        if (problem.color === undefined && problem.holdIds === undefined) c.fail(problemPath, 'needs a color or a holdIds list');
+        c.holdRefs(problem, 'holdIds', problemPath, holdIds, true);
+        c.holdRefs(problem, 'startHoldIds', problemPath, holdIds, false);
+        c.holdRefs(problem, 'finishHoldIds', problemPath, holdIds, false);
+    });
+    c.uniqueIds(level.problems, `${path}.problems`);
+};
+
+// --- Import ---
+
+// Pulls holds and bolts that sit off the wall back onto its edges
+const repairPositions = (level: Record<string, unknown>): Record<string, unknown> => {
+    const height = typeof level.height === 'number' && Number.isFinite(level.height) ? level.height : 100;
+    const onWall = (items: unknown) => Array.isArray(items)
+        ? items.map(item => isObject(item) && typeof item.x === 'number' && typeof item.y === 'number'
+            ? { ...item, x: Math.max(0, Math.min(100, item.x)), y: Math.max(0, Math.min(height, item.y)) }
+            : item)
+        : items;
+    return { ...level, holds: onWall(level.holds), ...(level.bolts !== undefined ? { bolts: onWall(level.bolts) } : {}) };
+};
+
+// Migrates and validates an already-parsed file, leaving the level as written. Routes
+// stored in localStorage are read back through here with `repair` on, so a stray hold
+// is moved back onto the wall instead of failing the whole route.
+export const readLevelFile = (data: unknown, { repair = false } = {}): LevelImportResult => {
+    let fromVersion = 0;
+    if (isObject(data) && data.format === LEVEL_FORMAT) {
+        const { version } = data;
+        if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+            return { errors: [`version: ${JSON.stringify(version)} is not a valid format version`] };
+        }
+        fromVersion = version;
+    }
+    if (fromVersion > LEVEL_FORMAT_VERSION) {
+        return { errors: [`version: file is version ${fromVersion}, this game reads up to ${LEVEL_FORMAT_VERSION}. Update the game to open it.`] };
+    }
+
+    for (let version = fromVersion; version < LEVEL_FORMAT_VERSION; version++) {
+        data = MIGRATIONS[version](data);
+    }
+
+    if (!isObject(data) || !isObject(data.level)) {
+        return { errors: ['level: missing or not an object'] };
+    }
+    const raw = repair ? repairPositions(data.level) : data.level;
+    const c = createChecker();
+    c.keys(data, ['format', 'version', 'exportedAt', 'level'], 'file');
+    validateLevel(raw, c);
+    if (c.errors.length > 0) return { errors: c.errors };
+
+    return {
+        // Checked field by field above
+        level: raw as unknown as Level,
+        migratedFrom: fromVersion < LEVEL_FORMAT_VERSION ? fromVersion : null
+    };
+};
+
+// Files from outside the game: routes that come without a grade get an estimated one
+export const parseLevelFile = (text: string): LevelImportResult => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        return { errors: ['Not valid JSON.'] };
+    }
+
+    const result = readLevelFile(data);
+    if ('errors' in result) return result;
+    const { level } = result;
+    return { ...result, level: level.difficulty.trim() === '' ? withEstimatedGrade(level) : level };
+};
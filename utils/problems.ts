@@ -0,0 +1,59 @@
+import { Hold, Level, Problem } from '../types';
+import { HOLD_COLORS } from '../constants';
+
+// Problems pick their holds out of the wall by color or by id. Start and finish holds are
+// per problem; without a problem, the hold types decide as they always have.
+
+export const getHoldColor = (hold: Hold) => (hold.color || HOLD_COLORS[hold.type]).toLowerCase();
+
+export const getProblem = (level: Level, problemId?: string | null): Problem | null =>
+    (problemId && level.problems?.find(p => p.id === problemId)) || null;
+
+export const isOnProblem = (problem: Problem | null, hold: Hold) => {
+    if (!problem) return true;
+    if (problem.startHoldIds.includes(hold.id) || problem.finishHoldIds.includes(hold.id)) return true;
+    if (problem.holdIds) return problem.holdIds.includes(hold.id);
+    return !!problem.color && getHoldColor(hold) === problem.color.toLowerCase();
+};
+
+export const getProblemHolds = (level: Level, problem: Problem | null) => level.holds.filter(h => isOnProblem(problem, h));
+
+export const isStartHold = (problem: Problem | null, hold: Hold) =>
+    problem ? problem.startHoldIds.includes(hold.id) : hold.type === 'start';
+
+export const isFinishHold = (problem: Problem | null, hold: Hold) =>
+    problem ? problem.finishHoldIds.includes(hold.id) : hold.type === 'finish';
+
+// A new problem from the holds picked in the editor. One shared color makes a color
+// problem (holds added later in that color join it); mixed colors list the holds.
+// Start and finish default to the marked holds, or the lowest and highest ones.
+export const createProblem = (id: string, name: string, grade: string, holds: Hold[]): Problem => {
+    const colors = new Set(holds.map(getHoldColor));
+    const byHeight = [...holds].sort((a, b) => b.y - a.y);
+    const starts = holds.filter(h => h.type === 'start');
+    const finishes = holds.filter(h => h.type === 'finish');
+    return {
+        id,
+        name,
+        grade,
+        ...(colors.size === 1 ? { color: [...colors][0] } : { holdIds: holds.map(h => h.id) }),
+        startHoldIds: (starts.length > 0 ? starts : byHeight.slice(0, 2)).map(h => h.id),
+        finishHoldIds: (finishes.length > 0 ? finishes : byHeight.slice(-1)).map(h => h.id)
+    };
+};
+
+// The problem on its own, for grading and the beta solver
+export const getProblemLevel = (level: Level, problem: Problem | null): Level =>
+    problem ? { ...level, holds: getProblemHolds(level, problem) } : level;
+
+// Drops references to holds that no longer exist, e.g. after deleting holds in the editor
+export const pruneProblems = (problems: Problem[] | undefined, holds: Hold[]): Problem[] | undefined => {
+    if (!problems) return problems;
+    const exists = (id: string) => holds.some(h => h.id === id);
+    return problems.map(p => ({
+        ...p,
+        ...(p.holdIds ? { holdIds: p.holdIds.filter(exists) } : {}),
+        startHoldIds: p.startHoldIds.filter(exists),
+        finishHoldIds: p.finishHoldIds.filter(exists)
+    }));
+};
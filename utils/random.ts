@@ -0,0 +1,39 @@
+// Small seeded PRNG (mulberry32). Same seed -> same sequence on every machine,
+// which is what lets procedural routes be shared and compared.
+
+export type Rng = () => number; // Uniform in [0, 1), like Math.random
+
+export const MAX_SEED = 0xffffffff;
+
+export const createRng = (seed: number): Rng => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Fresh seed for "reroll". Not deterministic by design.
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+// Accepts user-typed seeds: plain integers are used as-is, any other text is hashed (FNV-1a)
+export const parseSeed = (input: string): number | null => {
+    const trimmed = input.trim();
+    if (!trimmed) return null;
+    if (/^\d+$/.test(trimmed)) {
+        const n = Number(trimmed);
+        return n <= MAX_SEED ? n : null;
+    }
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < trimmed.length; i++) {
+        hash ^= trimmed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+};
+
+// Short random id for holds, routes, profiles and logs. Unique enough for one player's data.
+export const createId = (): string => Math.random().toString(36).substr(2, 9);
@@ -0,0 +1,155 @@
+import { ClimbInput, ClimberState, Level, ReplayLog, ReplayEntry, AttemptResult, SimulationEvent, SimulationSettings, SimulationState } from '../types';
+import { SIM_TIMESTEP_MS, stepSimulation, applyClimbInput } from './simulation';
+import { createId } from './random';
+
+// Replays store the player's inputs, not frames. Playback re-runs the deterministic
+// simulation from the recorded starting state, so a whole climb costs a few KB.
+
+export const MAX_REPLAYS_PER_LEVEL = 5;
+
+// Playback caches a full simulation state this often so scrubbing doesn't re-simulate from zero
+const KEYFRAME_INTERVAL = 60;
+
+// --- Recording ---
+
+export const createReplayLog = (levelKey: string, level: Level, settings: SimulationSettings, initial: SimulationState): ReplayLog => ({
+    id: createId(),
+    levelKey,
+    level,
+    recordedAt: Date.now(),
+    initial,
+    settings,
+    entries: [],
+    outcomes: [],
+    totalSteps: 0
+});
+
+export const recordInput = (log: ReplayLog, step: number, input: ClimbInput) => {
+    log.entries.push({ step, input });
+    log.totalSteps = Math.max(log.totalSteps, step);
+};
+
+export const recordOutcomes = (log: ReplayLog, step: number, events: SimulationEvent[]) => {
+    // Slip flags are re-emitted every step; the tick that caused them is already logged
+    events.forEach(event => {
+        if (event.type !== 'slip') log.outcomes.push({ step, event });
+    });
+    log.totalSteps = Math.max(log.totalSteps, step);
+};
+
+// Returns null for recordings not worth keeping (walking around on the pad, then resetting).
+// `climber` is the state the attempt ended in; its rules violations go on the log.
+export const finalizeReplay = (log: ReplayLog, step: number, result: AttemptResult, climber?: ClimberState): ReplayLog | null => {
+    const leftGround = log.outcomes.some(o => o.event.type === 'tick');
+    if (!leftGround && result === 'reset') return null;
+    const offRouteHoldIds = climber?.offRouteHoldIds;
+    return {
+        ...log,
+        totalSteps: Math.max(log.totalSteps, step),
+        result,
+        ...(offRouteHoldIds?.length ? { offRouteHoldIds } : {}),
+        ...(climber?.invalidStart ? { invalidStart: true } : {})
+    };
+};
+
+export const addReplay = (replays: Record<string, ReplayLog[]>, log: ReplayLog): Record<string, ReplayLog[]> => ({
+    ...replays,
+    [log.levelKey]: [log, ...(replays[log.levelKey] || [])].slice(0, MAX_REPLAYS_PER_LEVEL)
+});
+
+export const getReplayDurationMs = (log: ReplayLog) => log.totalSteps * SIM_TIMESTEP_MS;
+
+// --- Playback ---
+
+interface Keyframe {
+    sim: SimulationState;
+    dragging: boolean;
+    settings: SimulationSettings;
+    entryIndex: number; // First entry not yet applied
+}
+
+export interface ReplayTimeline {
+    log: ReplayLog;
+    keyframes: Keyframe[]; // keyframes[i] is the state after i * KEYFRAME_INTERVAL steps, before that step's inputs
+}
+
+const applyEntry = (frame: Keyframe, entry: ReplayEntry, level: Level): Keyframe => {
+    const { input } = entry;
+    if (input.kind === 'drag') return { ...frame, dragging: input.dragging };
+    if (input.kind === 'settings') return { ...frame, settings: input.settings };
+    return { ...frame, sim: { ...frame.sim, climber: applyClimbInput(frame.sim.climber, input, level, frame.settings.body) } };
+};
+
+// Applies the inputs recorded at `step`, then (optionally) advances one step
+const advance = (frame: Keyframe, log: ReplayLog, step: number, simulate: boolean): Keyframe => {
+    let current = frame;
+    while (current.entryIndex < log.entries.length && log.entries[current.entryIndex].step <= step) {
+        current = applyEntry(current, log.entries[current.entryIndex], log.level);
+        current = { ...current, entryIndex: current.entryIndex + 1 };
+    }
+    if (!simulate) return current;
+    const { state } = stepSimulation(current.sim, { isUserDragging: current.dragging }, log.level, current.settings, SIM_TIMESTEP_MS);
+    return { ...current, sim: state };
+};
+
+export const buildReplayTimeline = (log: ReplayLog): ReplayTimeline => {
+    const keyframes: Keyframe[] = [];
+    let frame: Keyframe = { sim: log.initial, dragging: false, settings: log.settings, entryIndex: 0 };
+
+    for (let step = 0; step <= log.totalSteps; step++) {
+        if (step % KEYFRAME_INTERVAL === 0) keyframes.push(frame);
+        frame = advance(frame, log, step, true);
+    }
+    return { log, keyframes };
+};
+
+// Runs the whole recording once, handing every simulated state to `visit`
+export const simulateReplay = (log: ReplayLog, visit: (step: number, climber: ClimberState) => void) => {
+    let frame: Keyframe = { sim: log.initial, dragging: false, settings: log.settings, entryIndex: 0 };
+    visit(0, frame.sim.climber);
+    for (let step = 0; step < log.totalSteps; step++) {
+        frame = advance(frame, log, step, true);
+        visit(step + 1, frame.sim.climber);
+    }
+    // Inputs logged at the last step (the topping placement) land without a tick after them
+    frame = advance(frame, log, log.totalSteps, false);
+    visit(log.totalSteps, frame.sim.climber);
+};
+
+export const getReplayStateAt = (timeline: ReplayTimeline, step: number): ClimberState => {
+    const target = Math.max(0, Math.min(timeline.log.totalSteps, Math.floor(step)));
+    const k = Math.min(timeline.keyframes.length - 1, Math.floor(target / KEYFRAME_INTERVAL));
+    let frame = timeline.keyframes[k];
+
+    for (let s = k * KEYFRAME_INTERVAL; s < target; s++) {
+        frame = advance(frame, timeline.log, s, true);
+    }
+    return advance(frame, timeline.log, target, false).sim.climber;
+};
+
+// The most recent tick outcome at or before `step`, for showing balance/slip state while watching
+export const getReplayOutcomeAt = (log: ReplayLog, step: number) => {
+    let latest: SimulationEvent | null = null;
+    for (const outcome of log.outcomes) {
+        if (outcome.step > step) break;
+        if (outcome.event.type === 'tick') latest = outcome.event;
+    }
+    return latest;
+};
+
+// --- Player ---
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export interface ReplayPlayback {
+    timeline: ReplayTimeline;
+    step: number; // Fractional; rendered state uses the whole step
+    playing: boolean;
+    speed: number;
+}
+
+export const advancePlayback = (playback: ReplayPlayback, elapsedMs: number): ReplayPlayback => {
+    const total = playback.timeline.log.totalSteps;
+    const step = Math.min(total, playback.step + (elapsedMs / SIM_TIMESTEP_MS) * playback.speed);
+    return { ...playback, step, playing: step < total };
+};
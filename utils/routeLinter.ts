@@ -0,0 +1,122 @@
+import { Hold, Level, LintIssue } from '../types';
+import { ANATOMY, MAX_REACH, HOLD_RADIUS } from '../constants';
+import { calculateDistance, getHoldAttributes } from './gameUtils';
+import { getGroundY } from './simulation';
+import { getProblemHolds } from './problems';
+
+// Widest two hands can be apart: both arms fully out plus the shoulders between them
+const MAX_MATCH_SPAN = MAX_REACH.hand * 2 + ANATOMY.shoulderWidth;
+
+// Biggest vertical gap one move can cover: an arm span plus pulling the torso up
+const MAX_VERTICAL_GAP = MAX_REACH.hand + ANATOMY.torsoHeight;
+
+const issue = (check: string, severity: LintIssue['severity'], message: string, holds: Hold[]): LintIssue => ({
+    id: `${check}:${holds.map(h => h.id).join(',')}`,
+    severity,
+    message,
+    holdIds: holds.map(h => h.id)
+});
+
+const checkStartFinish = (holds: Hold[]): LintIssue[] => {
+    const issues: LintIssue[] = [];
+    (['start', 'finish'] as const).forEach(type => {
+        const matching = holds.filter(h => h.type === type);
+        if (matching.length === 0) {
+            issues.push(issue(`no-${type}`, 'error', `No ${type} hold.`, []));
+        } else if (matching.length > 2) {
+            issues.push(issue(`many-${type}`, 'warning', `${matching.length} ${type} holds; a problem uses at most two.`, matching));
+        }
+    });
+    return issues;
+};
+
+// Circuit walls: hold types don't mark starts and finishes, each problem lists its own
+const checkProblems = (level: Level): LintIssue[] => {
+    const issues: LintIssue[] = [];
+    (level.problems || []).forEach(problem => {
+        if (getProblemHolds(level, problem).length === problem.startHoldIds.length + problem.finishHoldIds.length) {
+            issues.push(issue(`empty-${problem.id}`, 'warning', `${problem.name} has no holds between start and finish.`, []));
+        }
+        (['start', 'finish'] as const).forEach(type => {
+            const ids = type === 'start' ? problem.startHoldIds : problem.finishHoldIds;
+            if (ids.length === 0) issues.push(issue(`no-${type}-${problem.id}`, 'error', `${problem.name} has no ${type} hold.`, []));
+            else if (ids.length > 2) issues.push(issue(`many-${type}-${problem.id}`, 'warning', `${problem.name} has ${ids.length} ${type} holds; a problem uses at most two.`, level.holds.filter(h => ids.includes(h.id))));
+        });
+    });
+    return issues;
+};
+
+const checkFinishMatch = (holds: Hold[]): LintIssue[] => {
+    const finishes = holds.filter(h => h.type === 'finish');
+    if (finishes.length !== 2) return [];
+    const span = calculateDistance(finishes[0], finishes[1]);
+    if (span <= MAX_MATCH_SPAN) return [];
+    return [issue('finish-span', 'error', `Finish holds are ${Math.round(span)} apart; both hands can't reach them at once.`, finishes)];
+};
+
+// Standing on the pad, the COM sits this far above the floor (same as the spawn position)
+const STANDING_COM_HEIGHT = 14;
+
+const checkVerticalGaps = (holds: Hold[], groundY: number): LintIssue[] => {
+    // Walk up the wall from the standing shoulders, hold by hold
+    const sorted = [...holds].sort((a, b) => b.y - a.y);
+    const issues: LintIssue[] = [];
+    let below: Hold | null = null;
+    let belowY = groundY - STANDING_COM_HEIGHT - ANATOMY.torsoHeight * 0.85;
+
+    for (const hold of sorted) {
+        const gap = belowY - hold.y;
+        if (gap > MAX_VERTICAL_GAP) {
+            const from = below ? `from ${below.id} ` : 'from the floor ';
+            issues.push(issue('gap', 'warning', `${Math.round(gap)}-unit gap ${from}to ${hold.id}, longer than a full reach.`, below ? [below, hold] : [hold]));
+        }
+        below = hold;
+        belowY = Math.min(belowY, hold.y);
+    }
+    return issues;
+};
+
+const checkBounds = (holds: Hold[], groundY: number): LintIssue[] =>
+    holds
+        .filter(h => h.x < 0 || h.x > 100 || h.y < 0 || h.y > groundY)
+        .map(h => issue('bounds', 'error', `${h.id} is off the wall (${Math.round(h.x)}, ${Math.round(h.y)}).`, [h]));
+
+const checkOverlaps = (holds: Hold[]): LintIssue[] => {
+    const issues: LintIssue[] = [];
+    for (let i = 0; i < holds.length; i++) {
+        for (let j = i + 1; j < holds.length; j++) {
+            const a = holds[i];
+            const b = holds[j];
+            // Volumes are meant to carry holds; only flag genuine collisions
+            const minGap = (HOLD_RADIUS[a.type] * getHoldAttributes(a).size + HOLD_RADIUS[b.type] * getHoldAttributes(b).size) * (a.type === 'volume' || b.type === 'volume' ? 0.3 : 0.8);
+            if (calculateDistance(a, b) < minGap) {
+                issues.push(issue('overlap', 'warning', `${a.id} and ${b.id} overlap.`, [a, b]));
+            }
+        }
+    }
+    return issues;
+};
+
+const checkFootholdsFromFloor = (holds: Hold[], groundY: number): LintIssue[] => {
+    // Standing on the pad, a foot can step up a leg's length from the hip
+    const hipY = groundY - STANDING_COM_HEIGHT + 1.5;
+    const lowestReachableY = hipY - MAX_REACH.foot;
+    if (holds.length === 0 || holds.some(h => h.y >= lowestReachableY)) return [];
+
+    const lowest = [...holds].sort((a, b) => b.y - a.y).slice(0, 2);
+    return [issue('no-footholds', 'warning', `No foothold within ${Math.round(MAX_REACH.foot)} of the hips when standing; the first move needs a jump.`, lowest)];
+};
+
+// Errors make a route unclimbable as set; warnings are likely mistakes worth a look
+export const lintLevel = (level: Level): LintIssue[] => {
+    const groundY = getGroundY(level);
+    const holds = level.holds;
+    const issues = [
+        ...(level.problems?.length ? checkProblems(level) : [...checkStartFinish(holds), ...checkFinishMatch(holds)]),
+        ...checkBounds(holds, groundY),
+        ...checkVerticalGaps(holds, groundY),
+        ...checkOverlaps(holds),
+        ...checkFootholdsFromFloor(holds, groundY),
+    ];
+    return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
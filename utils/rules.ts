@@ -0,0 +1,41 @@
+import { ClimberState, FinishRule, Level, Problem, StartRule } from '../types';
+import { isAttached } from './gameUtils';
+import { isFinishHold, isStartHold } from './problems';
+
+// Start and finish rules. Standing starts and matched finishes are how every route
+// worked before levels could choose.
+
+export const getStartRule = (level: Level): StartRule => level.startRule || 'standing';
+export const getFinishRule = (level: Level): FinishRule => level.finishRule || 'match';
+
+export const START_RULE_LABELS: Record<StartRule, string> = {
+    standing: 'Standing start',
+    sit: 'Sit start',
+    designated: 'Start on the start holds',
+};
+
+export const FINISH_RULE_LABELS: Record<FinishRule, string> = {
+    touch: 'Touch the finish',
+    match: 'Match the finish',
+    topOut: 'Top out',
+};
+
+// A foot still on the floor is a loose point at ground level
+const isOnFloor = (foot: ClimberState['limbs']['leftFoot'], groundY: number) =>
+    !!foot && !isAttached(foot) && foot.y >= groundY - 1;
+
+export const isFeetOffFloor = (limbs: ClimberState['limbs'], groundY: number) =>
+    !isOnFloor(limbs.leftFoot, groundY) && !isOnFloor(limbs.rightFoot, groundY);
+
+const getHandHolds = (limbs: ClimberState['limbs'], level: Level) =>
+    [limbs.leftHand, limbs.rightHand].map(hand => isAttached(hand) ? level.holds.find(h => h.id === hand.holdId) || null : null);
+
+export const isStartPosition = (limbs: ClimberState['limbs'], level: Level, problem: Problem | null, groundY: number) =>
+    getHandHolds(limbs, level).every(hold => !!hold && isStartHold(problem, hold)) && isFeetOffFloor(limbs, groundY);
+
+// Whether the hands are where the finish rule wants them. Top-outs finish with a mantle
+// over the lip instead (see topOut.ts).
+export const isFinishReached = (limbs: ClimberState['limbs'], level: Level, problem: Problem | null) => {
+    const onFinish = getHandHolds(limbs, level).map(hold => !!hold && isFinishHold(problem, hold));
+    return getFinishRule(level) === 'touch' ? onFinish.some(Boolean) : onFinish.every(Boolean);
+};
@@ -0,0 +1,53 @@
+import { Level } from '../types';
+import { LevelImportResult, parseLevelFile, toLevelFile } from './levelFormat';
+
+// Share links carry the whole route in the URL fragment: the route file format, minified,
+// deflated and base64url-encoded. The fragment never reaches a server, and decoding runs
+// the same validation as a file import, so an edited or truncated link fails cleanly.
+
+const SHARE_PREFIX = '#route=';
+
+// Longer than any real route; guards against pasting something huge
+const MAX_PAYLOAD_LENGTH = 200000;
+
+// Coordinates from mouse placement carry float noise nobody can see on the wall
+const roundNumbers = (_key: string, value: unknown) =>
+    typeof value === 'number' ? Math.round(value * 100) / 100 : value;
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+export const encodeShareLink = async (level: Level, baseUrl: string): Promise<string> => {
+    const { exportedAt, ...file } = toLevelFile(level);
+    const json = JSON.stringify(file, roundNumbers);
+    const compressed = await pipeBytes(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+    return baseUrl.split('#')[0] + SHARE_PREFIX + toBase64Url(compressed);
+};
+
+// The encoded route in a location hash, or null when the hash isn't a share link
+export const getSharePayload = (hash: string): string | null =>
+    hash.startsWith(SHARE_PREFIX) ? hash.slice(SHARE_PREFIX.length) : null;
+
+export const decodeShareLink = async (payload: string): Promise<LevelImportResult> => {
+    if (payload.length === 0 || payload.length > MAX_PAYLOAD_LENGTH || !/^[A-Za-z0-9_-]+$/.test(payload)) {
+        return { errors: ['The link is incomplete or contains characters a share link never has.'] };
+    }
+    let json: string;
+    try {
+        json = new TextDecoder().decode(await pipeBytes(fromBase64Url(payload), new DecompressionStream('deflate-raw')));
+    } catch (e) {
+        return { errors: ['The route data in the link is corrupted. It may have been cut off when copied.'] };
+    }
+    return parseLevelFile(json);
+};
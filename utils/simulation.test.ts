@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { ClimbInput, Level, SimulationEvent, SimulationSettings, SimulationState } from '../types';
+import { SAMPLE_LEVELS } from '../constants';
+import { applyClimbInput, createClimberState, createSimulationState, getGroundY, stepSimulation } from './simulation';
+
+const boulder = SAMPLE_LEVELS.find(l => l.id === 'lvl1')!;
+const sport = SAMPLE_LEVELS.find(l => l.id === 'sport1')!;
+const dynoLevel = SAMPLE_LEVELS.find(l => l.id === 'lvl12')!;
+
+const SETTINGS: SimulationSettings = { realismMode: false, infiniteStamina: false };
+
+// Inputs keyed by the step they're applied before
+type Script = Record<number, ClimbInput[]>;
+
+const run = (level: Level, settings: SimulationSettings, script: Script, steps: number, start?: SimulationState) => {
+    let state = start ?? createSimulationState(createClimberState(level));
+    const events: SimulationEvent[] = [];
+    for (let step = 0; step < steps; step++) {
+        (script[step] || []).forEach(input => {
+            state = { ...state, climber: applyClimbInput(state.climber, input, level) };
+        });
+        const result = stepSimulation(state, { isUserDragging: false }, level, settings);
+        state = result.state;
+        events.push(...result.events);
+    }
+    return { state, events };
+};
+
+const hold = (level: Level, id: string) => {
+    const h = level.holds.find(h => h.id === id)!;
+    return { holdId: h.id, x: h.x, y: h.y };
+};
+
+// Both hands on the start holds, feet on the start footholds, body pulled up off the pad
+const pullOn = (level: Level, hands: [string, string], feet: [string, string]): Script => ({
+    0: [
+        { kind: 'limb', limb: 'leftHand', target: hold(level, hands[0]) },
+        { kind: 'limb', limb: 'rightHand', target: hold(level, hands[1]) },
+        { kind: 'limb', limb: 'leftFoot', target: hold(level, feet[0]) },
+        { kind: 'limb', limb: 'rightFoot', target: hold(level, feet[1]) },
+        { kind: 'com', com: { x: 50, y: getGroundY(level) - 22 } },
+    ],
+});
+
+const letGo: ClimbInput[] = [
+    { kind: 'limb', limb: 'leftHand', target: null },
+    { kind: 'limb', limb: 'rightHand', target: null },
+    { kind: 'limb', limb: 'leftFoot', target: null },
+    { kind: 'limb', limb: 'rightFoot', target: null },
+];
+
+describe('stepSimulation', () => {
+    it('gives the same final state for the same inputs', () => {
+        const script: Script = {
+            ...pullOn(boulder, ['start1', 'start2'], ['foot1', 'foot2']),
+            40: [{ kind: 'limb', limb: 'leftHand', target: hold(boulder, 'f1') }],
+            80: [{ kind: 'chalk' }],
+            120: [{ kind: 'limb', limb: 'rightHand', target: hold(boulder, 'f2') }],
+        };
+        const first = run(boulder, SETTINGS, script, 300);
+        const second = run(boulder, SETTINGS, script, 300);
+
+        expect(first.state.climber.status).toBe('climbing');
+        expect(second.state).toEqual(first.state);
+        expect(second.events).toEqual(first.events);
+    });
+
+    it('ends a fall off a boulder with a landing', () => {
+        const { state, events } = run(boulder, SETTINGS, { ...pullOn(boulder, ['start1', 'start2'], ['foot1', 'foot2']), 40: letGo }, 400);
+
+        expect(events.some(e => e.type === 'fall')).toBe(true);
+        expect(events.some(e => e.type === 'landed')).toBe(true);
+        expect(state.climber.status).not.toBe('falling');
+    });
+
+    it('catches a top-rope fall on the rope', () => {
+        const settings: SimulationSettings = { ...SETTINGS, protection: 'topRope' };
+        const { state, events } = run(sport, settings, { ...pullOn(sport, ['sport1_s1', 'sport1_s2'], ['sport1_sf1', 'sport1_sf2']), 40: letGo }, 200);
+
+        expect(events.some(e => e.type === 'ropeCaught')).toBe(true);
+        expect(events.some(e => e.type === 'landed')).toBe(false);
+        expect(state.climber.hanging).toBe(true);
+    });
+
+    it('catches the finish at the top of a full dyno, and comes up short on a half one', () => {
+        const start = pullOn(dynoLevel, ['s1', 's2'], ['ft1', 'ft1']);
+        const jump = (charge: number) => run(dynoLevel, SETTINGS, { ...start, 20: [{ kind: 'dyno', charge, aim: { x: 0, y: -1 } }] }, 120);
+
+        const full = jump(1);
+        expect(full.events).toContainEqual(expect.objectContaining({ type: 'caught', holdId: 'f1' }));
+        expect(full.state.climber.airborne).toBe(false);
+
+        const half = jump(0.5);
+        expect(half.events).not.toContainEqual(expect.objectContaining({ type: 'caught', holdId: 'f1' }));
+    });
+});
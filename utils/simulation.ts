@@ -0,0 +1,759 @@
+import { ClimberState, ClimberBody, Level, Limb, Point, AttachedLimb, Bolt, ClimbInput, SimulationState, SimulationInputs, SimulationSettings, SimulationEvent, StepResult, FallCause, CrashPad, LandingOutcome, ProtectionMode } from '../types';
+import { INITIAL_STAMINA, INITIAL_CHALK, HOLD_STAMINA_DRAIN, DEFAULT_CRASH_PADS, LANDING_THRESHOLDS, LANDING_STAMINA } from '../constants';
+import { calculateTickDrain, calculateStability, constrainBodyPosition, getFrictionPenalty, isAttached, calculateDistance, getFootEngagement, getHookEffectiveness, getHoldRejection, getAngleAt } from './gameUtils';
+import { getWallAngleFn } from './wall';
+import { getProblem, isOnProblem, isStartHold } from './problems';
+import { getFinishRule, getStartRule, isFinishReached, isStartPosition } from './rules';
+import { LIP_HOLD_ID, MANTLE_STEPS, canStartMantle, getMantleComY, getMantleDrain, getMantleImbalance, getStandingOnTop, getWallHolds, isRockingOver } from './topOut';
+import { DEFAULT_BODY, getLimbAnchor, getLimbReach } from './body';
+
+// Physics always advances in fixed increments so the same inputs produce the same climb,
+// regardless of the display refresh rate. Callers accumulate frame time and step in these units.
+export const SIM_TIMESTEP_MS = 16;
+
+// Stamina, pump and balance are evaluated on a slower cadence than movement
+export const SIM_TICK_INTERVAL_MS = 100;
+
+// Fraction of a hooked leg's stretch the hook takes back each step
+const HOOK_PULL = 0.02;
+
+// --- Falling ---
+
+// Free-fall acceleration and terminal speed, wall units per step
+const FALL_GRAVITY = 0.06;
+const TERMINAL_FALL_SPEED = 5;
+
+// Landing this close to a pad's edge (or the seam between two pads) risks a foot going off it
+const PAD_EDGE = 3;
+
+export const getCrashPads = (lvl: Level): CrashPad[] => lvl.crashPads || DEFAULT_CRASH_PADS;
+
+export const resolveLanding = (fallHeight: number, x: number, pads: CrashPad[]): { outcome: LandingOutcome; onPad: boolean } => {
+    const pad = pads.find(p => x >= p.x && x <= p.x + p.width);
+    let severity = 2; // Bare floor
+    if (pad) {
+        const nearEdge = x - pad.x < PAD_EDGE || pad.x + pad.width - x < PAD_EDGE;
+        severity = nearEdge ? 1.5 : 1;
+    }
+    const effectiveHeight = fallHeight * severity;
+    const { outcome } = LANDING_THRESHOLDS.find(t => effectiveHeight >= t.minHeight)!;
+    return { outcome, onPad: !!pad };
+};
+
+// --- Rope ---
+
+// Extra rope out beyond the fall factor (slack in the system plus stretch), wall units
+const ROPE_SLACK = 4;
+
+const getClippedBolts = (climber: ClimberState, level: Level): Bolt[] =>
+    (climber.clips || [])
+        .map(id => (level.bolts || []).find(b => b.id === id))
+        .filter((b): b is Bolt => !!b);
+
+// The rope runs through every clip; the highest one is what holds a fall
+export const getHighestClip = (climber: ClimberState, level: Level): Bolt | null =>
+    getClippedBolts(climber, level).reduce<Bolt | null>((best, b) => !best || b.y < best.y ? b : best, null);
+
+// A free hand has to get to the draw to clip it
+export const canClip = (climber: ClimberState, bolt: Bolt, body: ClimberBody = DEFAULT_BODY) => {
+    if (climber.status !== 'climbing' || climber.airborne) return false;
+    if (climber.clips?.includes(bolt.id)) return false;
+    return (['leftHand', 'rightHand'] as const).some(limb =>
+        !isAttached(climber.limbs[limb]) &&
+        calculateDistance(getLimbAnchor(body, climber.centerOfMass, limb), bolt) <= getLimbReach(body, limb)
+    );
+};
+
+export const getClippableBolt = (climber: ClimberState, level: Level, body: ClimberBody = DEFAULT_BODY): Bolt | null => {
+    const candidates = (level.bolts || []).filter(b => canClip(climber, b, body));
+    return candidates.sort((a, b) => calculateDistance(climber.centerOfMass, a) - calculateDistance(climber.centerOfMass, b))[0] || null;
+};
+
+// Top-roping, the rope runs through the highest bolt (the anchor), or over the top above the finish
+export const getTopRopeAnchor = (level: Level): Point => {
+    const bolts = level.bolts || [];
+    if (bolts.length > 0) return bolts.reduce((best, b) => b.y < best.y ? b : best);
+    const finish = level.holds.filter(h => h.type === 'finish');
+    if (finish.length > 0) return { x: finish.reduce((s, h) => s + h.x, 0) / finish.length, y: 0 };
+    return { x: 50, y: 0 };
+};
+
+// The point the climber hangs from when weighting the rope
+export const getRopeAnchor = (climber: ClimberState, level: Level, protection?: ProtectionMode): Point | null =>
+    protection === 'topRope' ? getTopRopeAnchor(level) : getHighestClip(climber, level);
+
+// Where the rope stops a fall: above the clip, the climber drops that distance twice
+// (up to the clip, then as far below it) plus slack. Below it, only the slack.
+export const getRopeCatchY = (clip: Bolt, fallStartY: number) => {
+    const aboveClip = clip.y - fallStartY;
+    return (aboveClip > 0 ? clip.y + aboveClip : fallStartY) + ROPE_SLACK;
+};
+
+// --- Dyno ---
+
+// Holding the dyno key this long gives a full-power launch
+export const DYNO_FULL_CHARGE_MS = 800;
+
+// Launch speed at full charge and stamina, wall units per step
+const DYNO_MAX_SPEED = 2.6;
+
+// Downward acceleration in flight, per step
+const DYNO_GRAVITY = 0.12;
+
+// The deadpoint: hands can only catch while vertical speed is this small, around the apex
+const DEADPOINT_WINDOW = 0.6;
+
+// Without a dyno, body drags can't carry more momentum than this into the swing
+const MAX_SWING_SPEED = 1.5;
+
+export const isInCatchWindow = (velocity: Point) => Math.abs(velocity.y) <= DEADPOINT_WINDOW;
+
+export const canDyno = (climber: ClimberState) =>
+    !climber.airborne && (climber.status === 'climbing' || climber.status === 'idle');
+
+// Launch velocity for a given charge and aim. Tired climbers jump shorter.
+export const getDynoLaunchVelocity = (climber: ClimberState, charge: number, aim: Point): Point => {
+    const length = Math.sqrt(aim.x * aim.x + aim.y * aim.y);
+    const dir = length > 0.01 ? { x: aim.x / length, y: aim.y / length } : { x: 0, y: -1 };
+    const staminaFactor = Math.max(0.25, Math.min(1, climber.stamina / 60));
+    const speed = DYNO_MAX_SPEED * Math.max(0, Math.min(1, charge)) * staminaFactor;
+    return { x: dir.x * speed, y: dir.y * speed };
+};
+
+// COM positions the flight will pass through, one per step, until it has dropped back past the catch window
+export const predictDynoArc = (com: Point, velocity: Point, maxSteps: number = 80): { points: Point[]; apex: Point } => {
+    const points: Point[] = [{ ...com }];
+    let pos = { ...com };
+    let vel = { ...velocity };
+    let apex = { ...com };
+    for (let i = 0; i < maxSteps; i++) {
+        vel = { x: vel.x, y: vel.y + DYNO_GRAVITY };
+        pos = { x: Math.max(0, Math.min(100, pos.x + vel.x)), y: pos.y + vel.y };
+        points.push(pos);
+        if (pos.y < apex.y) apex = pos;
+        if (vel.y > DEADPOINT_WINDOW) break;
+    }
+    return { points, apex };
+};
+
+// In realism mode, slips happen easier
+export const isSlippingAt = (frictionPenalty: number, realismMode: boolean) =>
+    frictionPenalty > (realismMode ? 15 : 20);
+
+const NO_LIMBS: ClimberState['limbs'] = { leftHand: null, rightHand: null, leftFoot: null, rightFoot: null };
+
+// --- Spawn ---
+
+export const getGroundY = (lvl: Level) => lvl.height || 100;
+// Standing height, or crouched on the pad for a sit start
+export const getStartCom = (lvl: Level): Point => ({ x: 50, y: getGroundY(lvl) - (getStartRule(lvl) === 'sit' ? 12 : 14) });
+export const getStartLimbs = (lvl: Level): ClimberState['limbs'] => ({
+    leftHand: null,
+    rightHand: null,
+    leftFoot: { x: 46, y: getGroundY(lvl) }, // Feet on ground
+    rightFoot: { x: 54, y: getGroundY(lvl) }
+});
+
+export const createClimberState = (lvl: Level, problemId?: string | null): ClimberState => ({
+    problemId: getProblem(lvl, problemId)?.id,
+    limbs: getStartLimbs(lvl),
+    stamina: INITIAL_STAMINA,
+    armPump: { left: 0, right: 0 },
+    chalk: INITIAL_CHALK,
+    balance: 0,
+    status: 'idle',
+    centerOfMass: getStartCom(lvl),
+    velocity: { x: 0, y: 0 }
+});
+
+export const createSimulationState = (climber: ClimberState): SimulationState => ({
+    climber,
+    prevCOM: { ...climber.centerOfMass },
+    tickAccumulator: 0
+});
+
+// --- Player Inputs ---
+
+export const applyLimbPlacement = (
+    prev: ClimberState,
+    limb: Limb,
+    val: AttachedLimb | Point | null,
+    level: Level
+): ClimberState => {
+    if (prev.status === 'decked') return prev;
+
+    // The mantle sequence moves the limbs itself until the climber is up or off
+    if (prev.mantle !== undefined) return prev;
+
+    const isHand = limb === 'leftHand' || limb === 'rightHand';
+
+    // Mid-dyno, only a hand can catch, and only around the apex
+    if (prev.airborne) {
+        if (!isHand || !isAttached(val) || !isInCatchWindow(prev.velocity)) return prev;
+    }
+
+    // A full hold refuses the limb; it stays where it was
+    const problem = getProblem(level, prev.problemId);
+    const hold = isAttached(val) ? level.holds.find(h => h.id === val.holdId) : undefined;
+    let offRouteHoldIds = prev.offRouteHoldIds;
+    if (hold) {
+        if (getHoldRejection(prev.limbs, limb, hold)) return prev;
+        // Off-route holds still hold the climber; using one just voids the attempt
+        if (!isOnProblem(problem, hold) && !offRouteHoldIds?.includes(hold.id)) {
+            offRouteHoldIds = [...(offRouteHoldIds || []), hold.id];
+        }
+    }
+
+    const nextLimbs = { ...prev.limbs, [limb]: val };
+    let status = prev.status;
+
+    // Sit and designated starts: until the start is established, a hand going anywhere
+    // but a start hold breaks it
+    const startRule = getStartRule(level);
+    let { startEstablished, invalidStart } = prev;
+    if (startRule !== 'standing' && !startEstablished && !invalidStart) {
+        if (isStartPosition(nextLimbs, level, problem, getGroundY(level))) startEstablished = true;
+        else if (isHand && hold && !isStartHold(problem, hold)) invalidStart = true;
+    }
+
+    // Top-outs finish with the mantle instead, in the step
+    if (getFinishRule(level) !== 'topOut' && isFinishReached(nextLimbs, level, problem)) {
+        status = 'topped';
+        if (startRule !== 'standing' && !startEstablished) invalidStart = true;
+    }
+
+    if (status === 'idle' && val !== null) {
+        status = 'climbing';
+    }
+
+    // Hanging on the rope ends once a hand takes a hold again
+    return {
+        ...prev,
+        limbs: nextLimbs,
+        status: status,
+        offRouteHoldIds,
+        startEstablished,
+        invalidStart,
+        airborne: prev.airborne && !isAttached(val),
+        hanging: prev.hanging && !(isHand && isAttached(val))
+    };
+};
+
+export const applyChalk = (prev: ClimberState): ClimberState => {
+    if (prev.status !== 'climbing' || prev.chalk >= 100) return prev;
+    return {
+        ...prev,
+        chalk: Math.min(100, prev.chalk + 5),
+        stamina: Math.max(0, prev.stamina - 1)
+    };
+};
+
+export const applyClip = (prev: ClimberState, boltId: string, level: Level, body: ClimberBody = DEFAULT_BODY): ClimberState => {
+    const bolt = (level.bolts || []).find(b => b.id === boltId);
+    if (!bolt || !canClip(prev, bolt, body)) return prev;
+    return {
+        ...prev,
+        clips: [...(prev.clips || []), boltId],
+        stamina: Math.max(0, prev.stamina - 1)
+    };
+};
+
+export const applyDyno = (prev: ClimberState, charge: number, aim: Point): ClimberState => {
+    if (!canDyno(prev)) return prev;
+    const clampedCharge = Math.max(0, Math.min(1, charge));
+    return {
+        ...prev,
+        limbs: { ...NO_LIMBS },
+        status: 'climbing',
+        airborne: true,
+        hanging: undefined,
+        balance: 0,
+        velocity: getDynoLaunchVelocity(prev, clampedCharge, aim),
+        stamina: Math.max(0, prev.stamina - (4 + 8 * clampedCharge))
+    };
+};
+
+// Applies inputs that act on the climber directly. Drag and settings inputs
+// only change how the next steps run, so they leave the state untouched.
+export const applyClimbInput = (prev: ClimberState, input: ClimbInput, level: Level, body: ClimberBody = DEFAULT_BODY): ClimberState => {
+    switch (input.kind) {
+        case 'limb':
+            return applyLimbPlacement(prev, input.limb, input.target, level);
+        case 'com':
+            return { ...prev, centerOfMass: input.com };
+        case 'chalk':
+            return applyChalk(prev);
+        case 'clip':
+            return applyClip(prev, input.boltId, level, body);
+        case 'dyno': {
+            const launched = applyDyno(prev, input.charge, input.aim);
+            // Jumping off the pad skips a sit or designated start
+            const skipsStart = prev.status === 'idle' && getStartRule(level) !== 'standing' && !prev.startEstablished;
+            return launched !== prev && skipsStart ? { ...launched, invalidStart: true } : launched;
+        }
+        default:
+            return prev;
+    }
+};
+
+// --- Step ---
+
+export const stepSimulation = (
+    state: SimulationState,
+    inputs: SimulationInputs,
+    level: Level,
+    settings: SimulationSettings,
+    dt: number = SIM_TIMESTEP_MS
+): StepResult => {
+    const prev = state.climber;
+    const events: SimulationEvent[] = [];
+    const groundY = getGroundY(level);
+    const wallAngle = getWallAngleFn(level);
+    const { isUserDragging } = inputs;
+    const { realismMode, infiniteStamina, protection } = settings;
+    const body = settings.body || DEFAULT_BODY;
+    const holds = getWallHolds(level);
+
+    let tickAccumulator = state.tickAccumulator;
+
+    const fall = (cause: FallCause) => {
+        if (nextState.status === 'falling') return;
+        nextState.status = 'falling';
+        nextState.limbs = { ...NO_LIMBS };
+        nextState.fallStartY = nextState.centerOfMass.y;
+        nextState.hanging = undefined;
+        events.push({ type: 'fall', cause });
+
+        // Top-roping, the rope is already tight: the climber just sits back on it
+        if (protection === 'topRope') {
+            nextState.status = 'climbing';
+            nextState.hanging = true;
+            nextState.velocity = { x: 0, y: 0 };
+            nextState.balance = 0;
+            nextState.fallStartY = undefined;
+            events.push({ type: 'ropeCaught', boltId: null, fallDistance: 0 });
+        }
+    };
+
+    // --- Velocity Calculation ---
+    // Determine velocity from previous step movement
+    const vx = (prev.centerOfMass.x - state.prevCOM.x) * (16 / dt);
+    const vy = (prev.centerOfMass.y - state.prevCOM.y) * (16 / dt);
+
+    const nextState: ClimberState = {
+        ...prev,
+        limbs: { ...prev.limbs },
+        centerOfMass: { ...prev.centerOfMass },
+        velocity: { x: vx, y: vy }
+    };
+    const prevCOM = { ...prev.centerOfMass };
+
+    const result = (): StepResult => ({
+        state: { climber: nextState, prevCOM, tickAccumulator },
+        events
+    });
+
+    // Nothing moves after a free solo fall, or once standing on top, until the climb is reset
+    if (nextState.status === 'decked' || (nextState.status === 'topped' && nextState.centerOfMass.y < 0)) {
+        nextState.velocity = { x: 0, y: 0 };
+        return result();
+    }
+
+    // --- 0. Falling Physics ---
+    if (nextState.status === 'falling') {
+        nextState.limbs = { ...NO_LIMBS };
+
+        // A fall that starts moving up (off a swing) is measured from its highest point
+        const fallStartY = Math.min(nextState.fallStartY ?? prev.centerOfMass.y, prev.centerOfMass.y);
+        nextState.fallStartY = fallStartY;
+
+        const velocity = {
+            x: prev.velocity.x * 0.98,
+            y: Math.min(TERMINAL_FALL_SPEED, prev.velocity.y + FALL_GRAVITY)
+        };
+
+        // Clipped in: the rope comes tight before the ground does
+        const clip = protection === 'freeSolo' ? null : getHighestClip(nextState, level);
+        const catchY = clip ? getRopeCatchY(clip, fallStartY) : Infinity;
+        if (clip && catchY < groundY - 14 && nextState.centerOfMass.y + velocity.y >= catchY) {
+            nextState.status = 'climbing';
+            nextState.hanging = true;
+            nextState.centerOfMass.y = catchY;
+            nextState.velocity = { x: 0, y: 0 };
+            nextState.balance = 0;
+            nextState.fallStartY = undefined;
+            events.push({ type: 'ropeCaught', boltId: clip.id, fallDistance: Math.round(catchY - fallStartY) });
+            return result();
+        }
+
+        // Fall until ground
+        if (nextState.centerOfMass.y + velocity.y < groundY - 5) {
+            nextState.velocity = velocity;
+            nextState.centerOfMass.y += velocity.y;
+            nextState.centerOfMass.x += velocity.x; // Maintain momentum while falling
+
+            // Bounce/Slide off walls
+            if (nextState.centerOfMass.x < 0) nextState.centerOfMass.x = 0;
+            if (nextState.centerOfMass.x > 100) nextState.centerOfMass.x = 100;
+        } else {
+            // Hit ground: how it goes depends on the drop and where on the pads we land
+            const fallHeight = Math.max(0, (groundY - 14) - fallStartY);
+            const { outcome, onPad } = resolveLanding(fallHeight, nextState.centerOfMass.x, getCrashPads(level));
+
+            if (protection === 'freeSolo') {
+                nextState.status = 'decked';
+                nextState.centerOfMass.y = groundY - 6;
+                nextState.velocity = { x: 0, y: 0 };
+                nextState.stamina = 0;
+                nextState.fallStartY = undefined;
+                events.push({ type: 'landed', outcome: 'fatal', fallHeight: Math.round(fallHeight), onPad });
+                return result();
+            }
+
+            nextState.status = 'idle';
+            nextState.centerOfMass.y = groundY - 14;
+            nextState.limbs = getStartLimbs(level);
+            nextState.velocity = { x: 0, y: 0 };
+            nextState.stamina = LANDING_STAMINA[outcome];
+            nextState.fallStartY = undefined;
+            nextState.clips = undefined;
+            nextState.offRouteHoldIds = undefined; // Back on the ground, the next attempt starts clean
+            nextState.startEstablished = undefined;
+            nextState.invalidStart = undefined;
+            events.push({ type: 'landed', outcome, fallHeight: Math.round(fallHeight), onPad });
+        }
+        return result();
+    }
+
+    // --- 0b. Dyno Flight ---
+    if (nextState.airborne) {
+        // Ballistic: the launch (or last flight step) set the velocity; only gravity changes it
+        const velocity = { x: prev.velocity.x, y: prev.velocity.y + DYNO_GRAVITY };
+        nextState.velocity = velocity;
+        nextState.centerOfMass = {
+            x: Math.max(0, Math.min(100, prev.centerOfMass.x + velocity.x)),
+            y: prev.centerOfMass.y + velocity.y
+        };
+
+        if (isInCatchWindow(velocity)) {
+            // Deadpoint: one hand grabs the highest hold on the problem either hand can reach
+            const problem = getProblem(level, nextState.problemId);
+            const catches = (['leftHand', 'rightHand'] as const).flatMap(limb => {
+                const shoulder = getLimbAnchor(body, nextState.centerOfMass, limb);
+                return holds
+                    .filter(h => (h.id === LIP_HOLD_ID || isOnProblem(problem, h))
+                        && calculateDistance(shoulder, h) <= body.maxReach.hand && !getHoldRejection(nextState.limbs, limb, h))
+                    .map(hold => ({ limb, hold, dist: calculateDistance(shoulder, hold) }));
+            });
+            const best = catches.sort((a, b) => a.hold.y - b.hold.y || a.dist - b.dist)[0];
+
+            if (best) {
+                const { limb, hold } = best;
+                const caught = applyLimbPlacement(nextState, limb, { holdId: hold.id, x: hold.x, y: hold.y }, level);
+                nextState.limbs = caught.limbs;
+                nextState.status = caught.status;
+                nextState.airborne = caught.airborne;
+                nextState.invalidStart = caught.invalidStart;
+                nextState.startEstablished = caught.startEstablished;
+                nextState.offRouteHoldIds = caught.offRouteHoldIds;
+                events.push({ type: 'caught', limb, holdId: hold.id });
+            }
+        } else if (velocity.y > DEADPOINT_WINDOW) {
+            // Past the apex with nothing in hand
+            nextState.airborne = false;
+            if (nextState.centerOfMass.y >= groundY - 16) {
+                // Jumped from the pad and came straight back down
+                nextState.status = 'idle';
+                nextState.centerOfMass.y = groundY - 14;
+                nextState.limbs = getStartLimbs(level);
+            } else {
+                fall('unsupported');
+            }
+        }
+        return result();
+    }
+
+    // --- 0c. Hanging on the Rope ---
+    if (nextState.hanging) {
+        const anchor = getRopeAnchor(nextState, level, protection);
+        nextState.velocity = { x: 0, y: 0 };
+        nextState.balance = 0;
+        if (!isUserDragging) {
+            // The rope swings the climber back under the anchor
+            if (anchor) nextState.centerOfMass.x += (anchor.x - nextState.centerOfMass.x) * 0.05;
+
+            // Resting on the rope: arms shake out, core recovers slowly
+            nextState.stamina = Math.min(100, nextState.stamina + 0.1);
+            nextState.armPump = {
+                left: Math.max(0, nextState.armPump.left - 0.2),
+                right: Math.max(0, nextState.armPump.right - 0.2)
+            };
+        }
+        events.push({ type: 'slip', slipping: false });
+        return result();
+    }
+
+    // --- 0d. Mantle ---
+    // Palms on the lip with the chest up at it: press up, rock a foot over, stand on top
+    if (canStartMantle(nextState, body)) nextState.mantle = 0;
+
+    if (nextState.mantle !== undefined) {
+        if (!isUserDragging) nextState.mantle = Math.min(1, nextState.mantle + 1 / MANTLE_STEPS);
+        const progress = nextState.mantle;
+        nextState.velocity = { x: 0, y: 0 };
+        nextState.centerOfMass.y = getMantleComY(progress, body);
+
+        if (isRockingOver(progress)) {
+            nextState.limbs.leftFoot = null;
+            nextState.limbs.rightFoot = { holdId: LIP_HOLD_ID, x: nextState.centerOfMass.x + body.hipWidth, y: 0 };
+        } else {
+            // The feet come off their holds as the hips rise past them
+            (['leftFoot', 'rightFoot'] as const).forEach(limb => {
+                const val = nextState.limbs[limb];
+                if (val && calculateDistance(getLimbAnchor(body, nextState.centerOfMass, limb), val) > getLimbReach(body, limb)) {
+                    nextState.limbs[limb] = null;
+                }
+            });
+        }
+
+        if (progress >= 1) {
+            nextState.mantle = undefined;
+            nextState.status = 'topped';
+            nextState.limbs = getStandingOnTop(nextState.centerOfMass, body);
+            nextState.balance = 0;
+            if (getStartRule(level) !== 'standing' && !nextState.startEstablished) nextState.invalidStart = true;
+            events.push({ type: 'slip', slipping: false });
+            return result();
+        }
+
+        tickAccumulator += dt;
+        if (tickAccumulator > SIM_TICK_INTERVAL_MS) {
+            tickAccumulator = 0;
+            const balanceScore = getMantleImbalance(nextState, body, realismMode);
+            nextState.balance = balanceScore;
+            events.push({ type: 'tick', balance: balanceScore, frictionPenalty: 0 });
+
+            if (!infiniteStamina) {
+                const drains = getMantleDrain(nextState, holds, wallAngle, realismMode, body);
+                nextState.stamina = Math.max(0, nextState.stamina - drains.core);
+                nextState.armPump = {
+                    left: Math.min(100, nextState.armPump.left + drains.leftPump),
+                    right: Math.min(100, nextState.armPump.right + drains.rightPump)
+                };
+
+                // Tipping off the palms or running out of press peels the climber off the lip
+                const spent = nextState.stamina <= 0 || nextState.armPump.left >= 100 || nextState.armPump.right >= 100;
+                const cause: FallCause | null = balanceScore >= 100 ? 'balance' : spent ? 'stamina' : null;
+                if (cause) {
+                    nextState.mantle = undefined;
+                    fall(cause);
+                }
+            }
+        }
+        events.push({ type: 'slip', slipping: false });
+        return result();
+    }
+
+    // --- Check if Standing on Ground ---
+    const isGrounded = nextState.centerOfMass.y >= groundY - 16;
+
+    if (isGrounded && !isUserDragging) {
+        nextState.balance = 0;
+        nextState.stamina = Math.min(100, nextState.stamina + 0.5);
+        nextState.armPump = { left: 0, right: 0 };
+        events.push({ type: 'slip', slipping: false });
+
+        if (nextState.status !== 'idle') nextState.status = 'idle';
+
+        if (vx === 0 && vy === 0) {
+            nextState.centerOfMass.y = nextState.centerOfMass.y * 0.9 + getStartCom(level).y * 0.1;
+        }
+
+        // Hands off and back on the pad: a broken start can be tried again
+        if (!isAttached(nextState.limbs.leftHand) && !isAttached(nextState.limbs.rightHand)) {
+            nextState.startEstablished = undefined;
+            nextState.invalidStart = undefined;
+        }
+
+        if (nextState.centerOfMass.y > groundY - 12) nextState.centerOfMass.y = groundY - 12;
+
+        if (!nextState.limbs.leftFoot) nextState.limbs.leftFoot = { x: nextState.centerOfMass.x - 4, y: groundY };
+        if (!nextState.limbs.rightFoot) nextState.limbs.rightFoot = { x: nextState.centerOfMass.x + 4, y: groundY };
+
+        return result();
+    }
+
+    // --- 1. Climbing Physics (Momentum + Gravity + Muscles) ---
+    if (!isUserDragging) {
+        // Flinging the body with a drag only swings so hard; big moves go through the dyno
+        const swingSpeed = Math.sqrt(vx * vx + vy * vy);
+        if (swingSpeed > MAX_SWING_SPEED) {
+            nextState.velocity = { x: vx * MAX_SWING_SPEED / swingSpeed, y: vy * MAX_SWING_SPEED / swingSpeed };
+        }
+
+        let gravity = 0.2;
+        let damping = 0.92;
+
+        // Adjust gravity based on foot placement (Standing vs Hanging). Hooks don't carry
+        // weight through the legs; they pull instead (below).
+        const activeFootLimbs = [nextState.limbs.leftFoot, nextState.limbs.rightFoot].filter(l => l !== null && getFootEngagement(l) === 'stand');
+        if (activeFootLimbs.length > 0) {
+            const avgFootY = activeFootLimbs.reduce((sum, l) => sum + l!.y, 0) / activeFootLimbs.length;
+            // If center of mass is ABOVE feet (standing)
+            if (nextState.centerOfMass.y < avgFootY + 5) {
+                const comAngle = getAngleAt(wallAngle, nextState.centerOfMass.y);
+                const angleRad = comAngle * (Math.PI / 180);
+                // On slabs/vertical, gravity is supported by feet mostly
+                gravity = 0.2 * Math.sin(angleRad);
+                if (comAngle < 0) gravity = 0.05;
+            }
+        }
+
+        // --- MUSCLE ACTIVATION / CORE TENSION ---
+        // If we are hanging (especially on overhangs), we use muscles to hold position.
+        // We only do this if we have some stamina left and are attached.
+        const handCount = [nextState.limbs.leftHand, nextState.limbs.rightHand].filter(isAttached).length;
+
+        if (handCount > 0 && nextState.stamina > 5) {
+            const velocityMag = Math.sqrt(vx * vx + vy * vy);
+
+            // If we are relatively still (attempting to lock off), activate muscles
+            // Threshold ensures we don't kill momentum during a big swing/dyno
+            if (velocityMag < 1.0) {
+                // How much can we fight gravity? Depends on stamina.
+                // at 100 stamina -> 1.0 strength. at 0 stamina -> 0 strength.
+                const muscleStrength = Math.min(1.0, nextState.stamina / 20);
+
+                // Reduce gravity effect to simulate holding the core tight
+                // We leave a tiny bit of gravity so it feels organic, not perfectly frozen
+                gravity *= (1 - (0.9 * muscleStrength));
+
+                // Increase damping to kill micro-movements (stiffen up)
+                damping = 0.92 * (1 - (0.15 * muscleStrength));
+            }
+        }
+
+        const proposedCOM = {
+            x: nextState.centerOfMass.x + (nextState.velocity.x * damping),
+            y: nextState.centerOfMass.y + (nextState.velocity.y * damping) + gravity
+        };
+
+        // Hooked feet draw the hips toward their hold, until the leg is bent
+        (['leftFoot', 'rightFoot'] as const).forEach(limb => {
+            const val = nextState.limbs[limb];
+            const effect = getHookEffectiveness(nextState, limb);
+            if (!isAttached(val) || effect === 0) return;
+            const hip = getLimbAnchor(body, proposedCOM, limb);
+            const dist = calculateDistance(hip, val);
+            const slack = dist - body.maxReach.foot * 0.6;
+            if (slack <= 0) return;
+            const pull = (slack / dist) * HOOK_PULL * effect;
+            proposedCOM.x += (val.x - hip.x) * pull;
+            proposedCOM.y += (val.y - hip.y) * pull;
+        });
+
+        // --- AUTO-DETACH LOGIC ---
+        // If momentum carries us beyond reach of a limb, we should detach that limb
+        // rather than bouncing off an invisible wall (which constrainsBodyPosition does).
+        const nextLimbs = { ...nextState.limbs };
+
+        const checkAndDetach = (limb: Limb) => {
+            const val = nextLimbs[limb];
+            if (val) {
+                const anchor = getLimbAnchor(body, proposedCOM, limb);
+                if (calculateDistance(anchor, val) > getLimbReach(body, limb) * 1.05) {
+                    nextLimbs[limb] = null;
+                    events.push({ type: 'limbDetached', limb, cause: 'overreach' });
+                }
+            }
+        };
+
+        checkAndDetach('leftHand');
+        checkAndDetach('rightHand');
+        checkAndDetach('leftFoot');
+        checkAndDetach('rightFoot');
+
+        nextState.limbs = nextLimbs;
+
+        // Constrain to remaining limbs (creates the swinging/pendulum effect)
+        nextState.centerOfMass = constrainBodyPosition(proposedCOM, nextState.limbs, holds, body);
+    }
+
+    // --- 2. Game Logic (Stamina & Balance) ---
+    if (nextState.status === 'climbing' && !isUserDragging) {
+        tickAccumulator += dt;
+        if (tickAccumulator > SIM_TICK_INTERVAL_MS) {
+            tickAccumulator = 0;
+
+            const balanceScore = calculateStability(nextState, holds, wallAngle, realismMode);
+            nextState.balance = balanceScore;
+
+            const frictionPenalty = getFrictionPenalty(nextState, holds, wallAngle, realismMode);
+            events.push({ type: 'tick', balance: balanceScore, frictionPenalty });
+
+            events.push({ type: 'slip', slipping: isSlippingAt(frictionPenalty, realismMode) });
+
+            if (balanceScore >= 100 && !infiniteStamina) {
+                nextState.balance = 100;
+                fall('balance');
+            }
+
+            const drains = calculateTickDrain(nextState, holds, HOLD_STAMINA_DRAIN, wallAngle, realismMode, body);
+
+            if (!infiniteStamina) {
+                nextState.stamina = Math.max(0, nextState.stamina - drains.core);
+                nextState.armPump = {
+                    left: Math.max(0, Math.min(100, nextState.armPump.left + drains.leftPump)),
+                    right: Math.max(0, Math.min(100, nextState.armPump.right + drains.rightPump))
+                };
+                nextState.chalk = Math.max(0, nextState.chalk - 0.02);
+
+                if (nextState.armPump.left >= 100 && nextState.limbs.leftHand) {
+                    nextState.limbs.leftHand = null;
+                    events.push({ type: 'limbDetached', limb: 'leftHand', cause: 'pump' });
+                }
+                if (nextState.armPump.right >= 100 && nextState.limbs.rightHand) {
+                    nextState.limbs.rightHand = null;
+                    events.push({ type: 'limbDetached', limb: 'rightHand', cause: 'pump' });
+                }
+
+                if (nextState.stamina <= 0) {
+                    fall('stamina');
+                }
+            }
+        }
+    } else {
+        nextState.balance = 0;
+        events.push({ type: 'slip', slipping: false });
+    }
+
+    // --- 3. Check Fall ---
+    const handCount = [nextState.limbs.leftHand, nextState.limbs.rightHand].filter(isAttached).length;
+
+    if (!isUserDragging && !nextState.hanging && handCount === 0 && nextState.centerOfMass.y < groundY - 18) {
+        nextState.centerOfMass.y += 1.0;
+        if (nextState.status === 'climbing') {
+            fall('unsupported');
+        }
+    }
+
+    return result();
+};
+
+// Advances the simulation by a whole number of fixed steps
+export const runSimulation = (
+    state: SimulationState,
+    inputs: SimulationInputs,
+    level: Level,
+    settings: SimulationSettings,
+    steps: number
+): StepResult => {
+    let current = state;
+    const events: SimulationEvent[] = [];
+    for (let i = 0; i < steps; i++) {
+        const next = stepSimulation(current, inputs, level, settings, SIM_TIMESTEP_MS);
+        current = next.state;
+        events.push(...next.events);
+    }
+    return { state: current, events };
+};
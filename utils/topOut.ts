@@ -0,0 +1,102 @@
+import { AttachedLimb, ClimberBody, ClimberState, Hold, Level, Point, WallAngle } from '../types';
+import { HOLD_STAMINA_DRAIN } from '../constants';
+import { calculateTickDrain, isAttached } from './gameUtils';
+import { getLimbAnchorOffset } from './body';
+import { getFinishRule } from './rules';
+
+// Top-out problems finish over the top edge of the wall (y = 0). The lip is a virtual
+// hold the hands palm down on; once the chest is up at it the climber mantles: press up
+// on straight arms, rock a foot onto the lip, stand up on top.
+
+export const LIP_HOLD_ID = 'lip';
+
+// How much of the top the camera shows above the lip, in wall units
+export const TOP_OUT_ZONE = 25;
+
+// A hand dropped this close to the edge (either side of it) palms the lip
+const LIP_SNAP = 4;
+
+// Shoulders within this of the lip start the mantle
+const MANTLE_ENTRY = 4.5;
+
+// Steps for the whole sequence, and where the press ends and the rock-over begins
+export const MANTLE_STEPS = 150;
+const PRESS_END = 0.6;
+
+// Hips just over the lip at the end of the press; standing height on top at the end
+const PRESS_HIP_Y = -2;
+const STANDING_Y = -14;
+
+// Pressing out a mantle is far harder than hanging: drain and pump gains are scaled up,
+// and every tick of the press costs this much on top
+const MANTLE_DRAIN = 3;
+const MANTLE_PRESS = { core: 0.3, pump: 1.5 };
+
+// Balance cost per unit the hips sit off the palms, and per unit the palms spread
+// wider than the shoulders can press from
+const MANTLE_LEAN = 10;
+const MANTLE_SPREAD = 6;
+
+export const hasLip = (level: Level) => getFinishRule(level) === 'topOut';
+
+// Palming a flat top is closest to a big volume: secure to push on, useless to pull on
+export const getLipHold = (level: Level): Hold | null =>
+    hasLip(level) ? { id: LIP_HOLD_ID, x: 50, y: 0, type: 'volume', rotation: 0 } : null;
+
+// Everything a limb can use, the lip included
+export const getWallHolds = (level: Level): Hold[] => {
+    const lip = getLipHold(level);
+    return lip ? [...level.holds, lip] : level.holds;
+};
+
+export const isOnLip = (val: ClimberState['limbs']['leftHand']) => isAttached(val) && val.holdId === LIP_HOLD_ID;
+
+// Where a hand dropped at `p` palms the lip, or null if it's not near it
+export const getLipPlacement = (level: Level, p: Point): AttachedLimb | null => {
+    if (!hasLip(level) || p.y > LIP_SNAP || p.y < -TOP_OUT_ZONE) return null;
+    return { holdId: LIP_HOLD_ID, x: Math.max(0, Math.min(100, p.x)), y: 0 };
+};
+
+export const canStartMantle = (state: ClimberState, body: ClimberBody) =>
+    state.status === 'climbing' && state.mantle === undefined
+    && isOnLip(state.limbs.leftHand) && isOnLip(state.limbs.rightHand)
+    && state.centerOfMass.y + getLimbAnchorOffset(body, 'leftHand').y <= MANTLE_ENTRY;
+
+// Body height along the sequence: hips up to the lip, then standing up on top
+export const getMantleComY = (progress: number, body: ClimberBody) => {
+    const entryY = MANTLE_ENTRY - getLimbAnchorOffset(body, 'leftHand').y;
+    if (progress < PRESS_END) return entryY + (PRESS_HIP_Y - entryY) * (progress / PRESS_END);
+    return PRESS_HIP_Y + (STANDING_Y - PRESS_HIP_Y) * ((progress - PRESS_END) / (1 - PRESS_END));
+};
+
+export const isRockingOver = (progress: number) => progress >= PRESS_END;
+
+// Per-tick cost of the mantle. Arms don't recover while they press.
+export const getMantleDrain = (state: ClimberState, holds: Hold[], wallAngle: WallAngle, realismMode: boolean, body: ClimberBody) => {
+    const drain = calculateTickDrain(state, holds, HOLD_STAMINA_DRAIN, wallAngle, realismMode, body);
+    const press = isRockingOver(state.mantle ?? 0) ? 0 : MANTLE_PRESS.pump;
+    return {
+        core: drain.core * MANTLE_DRAIN + MANTLE_PRESS.core,
+        leftPump: Math.max(0, drain.leftPump) * MANTLE_DRAIN + press,
+        rightPump: Math.max(0, drain.rightPump) * MANTLE_DRAIN + press
+    };
+};
+
+// Instability while mantling: hips off the palms, palms too wide to press from. The wall
+// stability model assumes hanging, so it doesn't apply once the body is over the hands.
+export const getMantleImbalance = (state: ClimberState, body: ClimberBody, realismMode: boolean) => {
+    const { leftHand, rightHand } = state.limbs;
+    if (!leftHand || !rightHand) return 100;
+    const palmsX = (leftHand.x + rightHand.x) / 2;
+    const spread = Math.abs(rightHand.x - leftHand.x);
+    const score = Math.abs(state.centerOfMass.x - palmsX) * MANTLE_LEAN + Math.max(0, spread - body.shoulderWidth * 2) * MANTLE_SPREAD;
+    return Math.min(100, score * (realismMode ? 1.5 : 1));
+};
+
+// Standing on top: feet on the surface, hands free
+export const getStandingOnTop = (com: Point, body: ClimberBody): ClimberState['limbs'] => ({
+    leftHand: null,
+    rightHand: null,
+    leftFoot: { x: com.x - body.hipWidth, y: 0 },
+    rightFoot: { x: com.x + body.hipWidth, y: 0 }
+});
@@ -0,0 +1,44 @@
+import { Level, Point, WallSection } from '../types';
+
+// Walls can change angle on the way up (slab into vertical into a roof). Each section
+// covers a band of heights; the level's base angle fills the rest.
+
+export const getWallSections = (level: Level): WallSection[] =>
+    [...(level.sections || [])].sort((a, b) => a.top - b.top);
+
+export const getWallAngleAt = (level: Level, y: number): number => {
+    const section = getWallSections(level).find(s => y >= s.top && y < s.bottom);
+    return section ? section.angle : level.angle || 0;
+};
+
+// For the physics functions, which sample the angle at each limb and at the COM
+export const getWallAngleFn = (level: Level) => (y: number) => getWallAngleAt(level, y);
+
+// The whole face from the top down, as contiguous bands (gaps filled with the base angle)
+export const getWallProfile = (level: Level): WallSection[] => {
+    const height = level.height || 100;
+    const base = level.angle || 0;
+    const profile: WallSection[] = [];
+    let y = 0;
+
+    getWallSections(level).forEach(section => {
+        const top = Math.max(y, section.top);
+        const bottom = Math.min(height, section.bottom);
+        if (bottom <= top) return;
+        if (top > y) profile.push({ top: y, bottom: top, angle: base });
+        profile.push({ top, bottom, angle: section.angle });
+        y = bottom;
+    });
+    if (y < height) profile.push({ top: y, bottom: height, angle: base });
+
+    return profile;
+};
+
+export const hasMultipleAngles = (level: Level) => new Set(getWallProfile(level).map(s => s.angle)).size > 1;
+
+// Holds and bolts have to sit on the wall: across its width, between the top and the floor
+export const clampToWall = <T extends Point>(level: Level, p: T): T => ({
+    ...p,
+    x: Math.max(0, Math.min(100, p.x)),
+    y: Math.max(0, Math.min(level.height || 100, p.y))
+});